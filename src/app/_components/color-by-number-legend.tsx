@@ -0,0 +1,44 @@
+import type { ColorByNumberReport } from "@/lib/pipeline/types";
+
+// Numbered swatches of the suggested colors for a color-by-number page.
+// Shown with color-by-number results on the test page.
+
+export function ColorByNumberLegend({
+  report,
+}: {
+  report: ColorByNumberReport;
+}) {
+  return (
+    <div style={{ fontSize: 12, color: "#333" }}>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+        {report.legend.map((entry) => (
+          <div
+            key={entry.number}
+            title={`${entry.color}, ${entry.regions} region${entry.regions === 1 ? "" : "s"}`}
+            style={{ display: "flex", alignItems: "center", gap: 4 }}
+          >
+            <strong style={{ minWidth: 16, textAlign: "right" }}>
+              {entry.number}
+            </strong>
+            <span
+              style={{
+                width: 20,
+                height: 20,
+                borderRadius: 4,
+                border: "1px solid #ccc",
+                background: entry.color,
+              }}
+            />
+          </div>
+        ))}
+      </div>
+      {report.regionsUnnumbered > 0 && (
+        <div style={{ fontSize: 11, color: "#666", marginTop: 4 }}>
+          {report.regionsUnnumbered} region
+          {report.regionsUnnumbered === 1 ? " is" : "s are"} too small to
+          number
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import {
+  ComplexityLevel,
+  type ColorabilityMetrics,
+} from "@/lib/pipeline/types";
+import {
+  getRegionTarget,
+  isWithinRegionTarget,
+} from "@/lib/prompts/generation";
+
+// Compact readout of a page's colorability metrics, with the region count
+// checked against the target for its complexity level.
+// Shared by the test, batch and results pages.
+
+export function ColorabilityMetricsSummary({
+  metrics,
+  complexity,
+}: {
+  metrics: ColorabilityMetrics;
+  // Complexity the page was generated for; omitted = no target check
+  complexity?: string;
+}) {
+  const level = ComplexityLevel.safeParse(complexity);
+  const target = level.success ? getRegionTarget(level.data) : null;
+  const onTarget =
+    level.success && isWithinRegionTarget(level.data, metrics.regionCount);
+  const { tiny, small, medium, large } = metrics.regionSizes;
+
+  return (
+    <div style={{ fontSize: 11, color: "#666", lineHeight: 1.5 }}>
+      <div>
+        Regions:{" "}
+        <strong style={{ color: target ? (onTarget ? "#16a34a" : "#dc2626") : "#333" }}>
+          {metrics.regionCount}
+        </strong>
+        {target &&
+          ` (target ${target.min}${target.max ? `-${target.max}` : "+"})`}{" "}
+        | smallest {metrics.smallestRegionArea}px
+      </div>
+      <div title="Tiny < 0.1% of the page, small < 1%, medium < 10%, large >= 10%">
+        Sizes: {tiny} tiny / {small} small / {medium} medium / {large} large
+      </div>
+      <div>
+        Ink {(metrics.inkRatio * 100).toFixed(1)}% | stroke{" "}
+        {metrics.strokeWidth}px | {metrics.openLineEnds} open ends
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PipelineEvent, PipelineStage } from "@/lib/pipeline/types";
+
+// Live pipeline progress for a run id, streamed from /api/progress/[runId].
+// Shared by the test and batch pages.
+
+const MAX_LOG_LINES = 5;
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  analysis: "Analysis",
+  generation: "Generation",
+  "post-processing": "Post-processing",
+};
+
+// ─── State ──────────────────────────────────────────────────────────────────
+
+type StageStatus =
+  | { state: "running" }
+  | { state: "done"; durationMs: number }
+  | { state: "failed"; message: string; cancelled: boolean };
+
+export interface PipelineProgressState {
+  // Stages in the order they started
+  stages: { stage: PipelineStage; status: StageStatus }[];
+  queuePosition: number | null;
+  logs: string[];
+}
+
+const EMPTY_PROGRESS: PipelineProgressState = {
+  stages: [],
+  queuePosition: null,
+  logs: [],
+};
+
+function setStageStatus(
+  stages: PipelineProgressState["stages"],
+  stage: PipelineStage,
+  status: StageStatus,
+): PipelineProgressState["stages"] {
+  return stages.some((s) => s.stage === stage)
+    ? stages.map((s) => (s.stage === stage ? { stage, status } : s))
+    : [...stages, { stage, status }];
+}
+
+function applyEvent(
+  progress: PipelineProgressState,
+  event: PipelineEvent,
+): PipelineProgressState {
+  switch (event.type) {
+    case "stage-start":
+      return {
+        ...progress,
+        stages: setStageStatus(progress.stages, event.stage, {
+          state: "running",
+        }),
+        queuePosition: null,
+      };
+    case "stage-end":
+      return {
+        ...progress,
+        stages: setStageStatus(progress.stages, event.stage, {
+          state: "done",
+          durationMs: event.durationMs,
+        }),
+        queuePosition: null,
+      };
+    case "stage-error":
+      return {
+        ...progress,
+        stages: setStageStatus(progress.stages, event.stage, {
+          state: "failed",
+          message: event.message,
+          cancelled: event.cancelled,
+        }),
+        queuePosition: null,
+      };
+    case "queue":
+      return { ...progress, queuePosition: event.position };
+    case "log":
+      return {
+        ...progress,
+        queuePosition: null,
+        logs: [...progress.logs, event.message].slice(-MAX_LOG_LINES),
+      };
+  }
+}
+
+// ─── Hook ───────────────────────────────────────────────────────────────────
+
+/**
+ * Subscribes to the progress stream for `runId`. Pass null when no run has
+ * started; a finished run's final state stays visible until `runId` changes.
+ */
+export function usePipelineProgress(
+  runId: string | null,
+): PipelineProgressState {
+  const [current, setCurrent] = useState<{
+    runId: string | null;
+    progress: PipelineProgressState;
+  }>({ runId: null, progress: EMPTY_PROGRESS });
+
+  useEffect(() => {
+    if (!runId) return;
+
+    const source = new EventSource(`/api/progress/${runId}`);
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as PipelineEvent;
+      setCurrent((prev) => ({
+        runId,
+        progress: applyEvent(
+          prev.runId === runId ? prev.progress : EMPTY_PROGRESS,
+          event,
+        ),
+      }));
+    };
+    source.addEventListener("end", () => source.close());
+
+    return () => source.close();
+  }, [runId]);
+
+  return current.runId === runId ? current.progress : EMPTY_PROGRESS;
+}
+
+// ─── Component ──────────────────────────────────────────────────────────────
+
+export function PipelineProgress({
+  runId,
+  label,
+}: {
+  runId: string | null;
+  // Optional heading, e.g. the batch iteration this run belongs to
+  label?: string;
+}) {
+  const progress = usePipelineProgress(runId);
+
+  if (progress.stages.length === 0) return null;
+
+  return (
+    <div
+      style={{
+        border: "1px solid #e5e5e5",
+        borderRadius: 6,
+        padding: 10,
+        marginBottom: 16,
+        fontSize: 12,
+        background: "#fafafa",
+      }}
+    >
+      {label && (
+        <div style={{ fontWeight: 600, marginBottom: 6 }}>{label}</div>
+      )}
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+        {progress.stages.map(({ stage, status }) => (
+          <span key={stage} style={{ color: stageColor(status) }}>
+            {STAGE_LABELS[stage]}: {describeStatus(status)}
+          </span>
+        ))}
+        {progress.queuePosition !== null && (
+          <span style={{ color: "#92400e" }}>
+            Queue position: {progress.queuePosition}
+          </span>
+        )}
+      </div>
+      {progress.logs.length > 0 && (
+        <pre
+          style={{
+            margin: "8px 0 0",
+            fontSize: 11,
+            color: "#4b5563",
+            whiteSpace: "pre-wrap",
+            wordBreak: "break-word",
+          }}
+        >
+          {progress.logs.join("\n")}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function describeStatus(status: StageStatus): string {
+  switch (status.state) {
+    case "running":
+      return "running...";
+    case "done":
+      return `${(status.durationMs / 1000).toFixed(1)}s`;
+    case "failed":
+      return status.cancelled ? "cancelled" : "failed";
+  }
+}
+
+function stageColor(status: StageStatus): string {
+  switch (status.state) {
+    case "running":
+      return "#2563eb";
+    case "done":
+      return "#16a34a";
+    case "failed":
+      return status.cancelled ? "#999" : "#dc2626";
+  }
+}
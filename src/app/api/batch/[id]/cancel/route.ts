@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelBatch } from "@/lib/batch/cancellation";
+
+// A route handler rather than a server action: the client runs server
+// actions one at a time, so a cancel action would queue behind the very
+// iteration it is meant to abort.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  const { id: batchId } = await params;
+  cancelBatch(batchId);
+  console.log("[batch] Cancel requested for batch:", batchId);
+  return NextResponse.json({ cancelled: true });
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelBookJob } from "@/lib/book/runner";
+
+// A route handler rather than a server action, like the batch cancel route:
+// the client runs server actions one at a time, so a cancel action would
+// queue behind the status polling.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  const { id: bookId } = await params;
+  cancelBookJob(bookId);
+  console.log("[book] Cancel requested for book:", bookId);
+  return NextResponse.json({ cancelled: true });
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readFile, stat } from "fs/promises";
+import { join } from "path";
+
+const BOOKS_DIR = join(process.cwd(), "books");
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> },
+): Promise<NextResponse> {
+  const { path: segments } = await params;
+
+  // Must be [bookId, "book.pdf"] or [bookId, "inputs" | "pages", "filename"]
+  if (segments.length < 2 || segments.length > 3) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+
+  // Prevent path traversal
+  for (const segment of segments) {
+    if (segment.includes("..") || segment.includes("/")) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+  }
+
+  const filePath = join(BOOKS_DIR, ...segments);
+
+  try {
+    const fileStat = await stat(filePath);
+    if (!fileStat.isFile()) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    const buffer = await readFile(filePath);
+
+    const ext = filePath.split(".").pop()?.toLowerCase();
+    const contentType =
+      ext === "pdf"
+        ? "application/pdf"
+        : ext === "png"
+          ? "image/png"
+          : ext === "jpg" || ext === "jpeg"
+            ? "image/jpeg"
+            : ext === "webp"
+              ? "image/webp"
+              : "application/octet-stream";
+
+    return new NextResponse(buffer, {
+      headers: {
+        "Content-Type": contentType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch {
+    return new NextResponse("Not found", { status: 404 });
+  }
+}
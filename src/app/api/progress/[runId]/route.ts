@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { subscribeProgress } from "@/lib/pipeline/progress";
+
+// Server-sent event stream of PipelineEvents for one run. Server actions
+// publish to the run's channel while this route relays them to the page,
+// which cannot receive intermediate results from an action call.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> },
+): Promise<Response> {
+  const { runId } = await params;
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  let open = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (!open) return;
+        open = false;
+        unsubscribe();
+        controller.close();
+      };
+
+      unsubscribe = subscribeProgress(runId, {
+        onEvent(event) {
+          if (!open) return;
+          controller.enqueue(
+            encoder.encode(`data: ${JSON.stringify(event)}\n\n`),
+          );
+        },
+        onClose() {
+          if (!open) return;
+          controller.enqueue(encoder.encode("event: end\ndata: {}\n\n"));
+          close();
+        },
+      });
+
+      request.signal.addEventListener("abort", close, { once: true });
+    },
+    cancel() {
+      open = false;
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -1,37 +1,38 @@
 "use server";
 
 import { randomUUID } from "crypto";
+import { hashImageBytes } from "@/lib/pipeline/analysis-fixtures";
+import { imageAnalysisToAnalysisResult } from "@/lib/pipeline/analyzer";
 import {
-  analyzePhoto,
-  imageAnalysisToAnalysisResult,
-} from "@/lib/pipeline/analyzer";
+  getAnalysisProvider,
+  getGenerationProvider,
+} from "@/lib/pipeline/providers";
 import {
-  callImageEdit,
-  callImageGeneration,
-  uploadToFalStorage,
-} from "@/lib/pipeline/fal-client";
-import { postProcessColoringPage } from "@/lib/pipeline/post-process";
-import {
-  buildEditPrompt,
-  buildGenerationPrompt,
-  getInferenceConfig,
-} from "@/lib/prompts/generation";
-import {
-  GENERATION_MODELS,
-  type AnalysisResult,
-  type GenerationResult,
-  type ComplexityLevel,
-  type PromptVariant,
-} from "@/lib/pipeline/types";
+  closeProgress,
+  createProgressPublisher,
+  runStage,
+} from "@/lib/pipeline/progress";
 import {
   initBatchDir,
   saveInputImage,
   saveAnalysis,
-  saveOutputImage,
-  saveMetadata,
 } from "@/lib/batch/storage";
-import type { BatchAnalysis, BatchRun } from "@/lib/batch/types";
-import { buildOutputFileName } from "@/lib/batch/types";
+import {
+  getBatchJobStatus,
+  startBatchJob,
+  updateBatchRatings,
+} from "@/lib/batch/runner";
+import type {
+  BatchAnalysis,
+  BatchJobStatus,
+  BatchRun,
+} from "@/lib/batch/types";
+import {
+  BatchConcurrencySchema,
+  BatchMatrixSchema,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_BATCH_MATRIX,
+} from "@/lib/batch/types";
 
 // ─── ActionResult (same pattern as test/actions.ts) ────────────────────────
 
@@ -45,22 +46,53 @@ function fail(error: unknown): { success: false; error: string } {
   return { success: false, error: message };
 }
 
-// ─── 1. Initialize batch + analyze ─────────────────────────────────────────
+// ─── 1. Initialize batch, analyze, start the job ───────────────────────────
 
 export interface InitBatchResult {
   batchId: string;
   imageUrl: string;
   inputFileName: string;
   analysis: BatchAnalysis;
+  batchRun: BatchRun;
 }
 
+/**
+ * Saves the input, runs analysis once, then hands the requested matrix
+ * (form field "matrix", JSON) to the background job runner. Optional form
+ * field "concurrency" (JSON) sets parallelism and per-model rate limits.
+ */
 export async function initBatchAction(
   formData: FormData,
 ): Promise<ActionResult<InitBatchResult>> {
+  // Optional id of a /api/progress stream the page is listening on
+  const runId = (formData.get("runId") as string | null) ?? undefined;
   try {
+    const onEvent = createProgressPublisher(runId);
     const file = formData.get("image") as File | null;
     if (!file) return fail(new Error("No image file provided"));
 
+    const rawMatrix = formData.get("matrix") as string | null;
+    const matrixResult = BatchMatrixSchema.safeParse(
+      rawMatrix ? JSON.parse(rawMatrix) : DEFAULT_BATCH_MATRIX,
+    );
+    if (!matrixResult.success) {
+      return fail(
+        new Error(`Invalid batch matrix: ${matrixResult.error.message}`),
+      );
+    }
+
+    const rawConcurrency = formData.get("concurrency") as string | null;
+    const concurrencyResult = BatchConcurrencySchema.safeParse(
+      rawConcurrency ? JSON.parse(rawConcurrency) : DEFAULT_BATCH_CONCURRENCY,
+    );
+    if (!concurrencyResult.success) {
+      return fail(
+        new Error(
+          `Invalid batch concurrency: ${concurrencyResult.error.message}`,
+        ),
+      );
+    }
+
     const batchId = randomUUID().slice(0, 8) + "-" + Date.now();
     console.log("[batch] Init batch:", batchId);
 
@@ -72,17 +104,20 @@ export async function initBatchAction(
     const buffer = Buffer.from(arrayBuffer);
     const ext = file.name.split(".").pop() ?? "png";
     const inputFileName = await saveInputImage(batchId, buffer, ext);
+    const imageHash = await hashImageBytes(buffer);
 
-    // Upload to fal storage (temporary URL for generation)
-    console.log("[batch] Uploading to fal storage...");
-    const imageUrl = await uploadToFalStorage(file);
+    // Upload via the generation provider (temporary URL for generation)
+    console.log("[batch] Uploading input image...");
+    const imageUrl = await getGenerationProvider().upload(file, { onEvent });
     console.log("[batch] Uploaded:", imageUrl);
 
-    // Run Claude analysis once
-    console.log("[batch] Running Claude analysis...");
-    const start = performance.now();
-    const imageAnalysis = await analyzePhoto(imageUrl);
-    const timingMs = Math.round(performance.now() - start);
+    // Run analysis once
+    console.log("[batch] Running analysis...");
+    const { value: imageAnalysis, durationMs: timingMs } = await runStage(
+      "analysis",
+      onEvent,
+      () => getAnalysisProvider().analyze(imageUrl, { onEvent, imageHash }),
+    );
     const analysisResult = imageAnalysisToAnalysisResult(imageAnalysis);
     console.log("[batch] Analysis done in", timingMs, "ms");
 
@@ -95,137 +130,51 @@ export async function initBatchAction(
     // Save analysis to disk
     await saveAnalysis(batchId, analysis);
 
+    // Iterations run in the background; the page polls for status
+    const batchRun = await startBatchJob({
+      batchId,
+      inputFileName,
+      imageUrl,
+      analysisResult,
+      matrix: matrixResult.data,
+      concurrency: concurrencyResult.data,
+    });
+
     const safeData = JSON.parse(
-      JSON.stringify({ batchId, imageUrl, inputFileName, analysis }),
+      JSON.stringify({ batchId, imageUrl, inputFileName, analysis, batchRun }),
     ) as InitBatchResult;
 
     return { success: true, data: safeData };
   } catch (error) {
     return fail(error);
+  } finally {
+    if (runId) closeProgress(runId);
   }
 }
 
-// ─── 2. Generate one iteration ─────────────────────────────────────────────
+// ─── 2. Poll job status ────────────────────────────────────────────────────
 
-export interface GenerateIterationParams {
-  batchId: string;
-  imageUrl: string;
-  analysisResult: AnalysisResult;
-  model: string;
-  complexity: ComplexityLevel;
-  variant: PromptVariant;
-}
-
-export interface GenerateIterationResult {
-  outputFileName: string;
-  modelLabel: string;
-  generation: GenerationResult;
-  generationMs: number;
-  postProcessMs: number;
-}
-
-export async function generateIterationAction(
-  params: GenerateIterationParams,
-): Promise<ActionResult<GenerateIterationResult>> {
+export async function getBatchStatusAction(
+  batchId: string,
+): Promise<ActionResult<BatchJobStatus>> {
   try {
-    const { batchId, imageUrl, analysisResult, model, complexity, variant } =
-      params;
-
-    const modelInfo = GENERATION_MODELS.find((m) => m.id === model);
-    const modelLabel = modelInfo?.label ?? model;
-    const isEdit = modelInfo?.type === "edit" || model.endsWith("/edit");
-    const outputFileName = buildOutputFileName(complexity, variant, model);
-
-    console.log(
-      `[batch] Generating: ${complexity} / ${variant} / ${modelLabel}`,
-    );
-
-    let generation: GenerationResult;
-    const genStart = performance.now();
-
-    if (isEdit) {
-      const prompt = buildEditPrompt(variant, complexity, analysisResult);
-      const response = await callImageEdit({
-        model,
-        prompt,
-        imageUrls: [imageUrl],
-        outputFormat: "png",
-      });
-      const firstImage = response.images[0];
-      if (!firstImage) return fail(new Error("Edit returned no images"));
-      generation = {
-        imageUrl: firstImage.url,
-        width: undefined,
-        height: undefined,
-        model,
-        promptUsed: prompt,
-        description: response.description,
-      };
-    } else {
-      const { prompt, negativePrompt } = buildGenerationPrompt(
-        variant,
-        complexity,
-        analysisResult,
-      );
-      const inferenceConfig = getInferenceConfig(complexity);
-      const response = await callImageGeneration({
-        prompt,
-        negativePrompt,
-        imageSize: "square_hd",
-        numInferenceSteps: inferenceConfig.numInferenceSteps,
-        guidanceScale: inferenceConfig.guidanceScale,
-      });
-      const firstImage = response.images[0];
-      if (!firstImage) return fail(new Error("Generation returned no images"));
-      generation = {
-        imageUrl: firstImage.url,
-        width: firstImage.width,
-        height: firstImage.height,
-        model,
-        promptUsed: prompt,
-        negativePromptUsed: negativePrompt,
-        seed: response.seed,
-      };
-    }
-
-    const generationMs = Math.round(performance.now() - genStart);
-    console.log(`[batch] Generation done in ${generationMs}ms`);
-
-    // Post-process
-    const ppStart = performance.now();
-    const finalImage = await postProcessColoringPage(generation.imageUrl, {
-      outputFormat: "png",
-    });
-    const postProcessMs = Math.round(performance.now() - ppStart);
-    console.log(`[batch] Post-process done in ${postProcessMs}ms`);
-
-    // Save output image to disk
-    await saveOutputImage(batchId, outputFileName, finalImage);
-
-    const safeData = JSON.parse(
-      JSON.stringify({
-        outputFileName,
-        modelLabel,
-        generation,
-        generationMs,
-        postProcessMs,
-      }),
-    ) as GenerateIterationResult;
-
+    const status = await getBatchJobStatus(batchId);
+    const safeData = JSON.parse(JSON.stringify(status)) as BatchJobStatus;
     return { success: true, data: safeData };
   } catch (error) {
     return fail(error);
   }
 }
 
-// ─── 3. Save batch metadata ────────────────────────────────────────────────
+// ─── 3. Save ratings ───────────────────────────────────────────────────────
 
-export async function saveBatchAction(
-  batchRun: BatchRun,
+export async function saveRatingsAction(
+  batchId: string,
+  ratings: Record<string, Record<string, number>>,
 ): Promise<ActionResult<void>> {
   try {
-    await saveMetadata(batchRun.id, batchRun);
-    console.log("[batch] Metadata saved for batch:", batchRun.id);
+    await updateBatchRatings(batchId, ratings);
+    console.log("[batch] Ratings saved for batch:", batchId);
     return { success: true, data: undefined };
   } catch (error) {
     return fail(error);
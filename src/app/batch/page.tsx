@@ -1,32 +1,46 @@
 "use client";
 
 import { useState, useRef, useCallback, useEffect } from "react";
+import Link from "next/link";
 import {
   initBatchAction,
-  generateIterationAction,
-  saveBatchAction,
-  type InitBatchResult,
-  type GenerateIterationResult,
+  getBatchStatusAction,
+  saveRatingsAction,
 } from "./actions";
-import { GENERATION_MODELS } from "@/lib/pipeline/types";
-import type { ComplexityLevel, PromptVariant } from "@/lib/pipeline/types";
 import {
-  BATCH_COMPLEXITY_LEVELS,
-  BATCH_VARIANTS,
+  ComplexityLevel,
+  GENERATION_MODELS,
+  PromptVariant,
+} from "@/lib/pipeline/types";
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_BATCH_MATRIX,
   QUALITY_CRITERIA,
+  countBatchIterations,
+  type ActiveIteration,
   type BatchAnalysis,
+  type BatchConcurrency,
+  type BatchMatrix,
   type BatchResult,
   type BatchRun,
   type SortMode,
-  buildOutputFileName,
+  describeResultCell,
 } from "@/lib/batch/types";
+import { ColorabilityMetricsSummary } from "@/app/_components/colorability-metrics";
+import { PipelineProgress } from "@/app/_components/pipeline-progress";
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
-const TOTAL_ITERATIONS =
-  BATCH_COMPLEXITY_LEVELS.length * BATCH_VARIANTS.length * GENERATION_MODELS.length;
+// How often the page polls the server-side job while it runs
+const POLL_INTERVAL_MS = 1000;
 
-type BatchPhase = "upload" | "analyzing" | "generating" | "done" | "error";
+type BatchPhase =
+  | "upload"
+  | "analyzing"
+  | "generating"
+  | "done"
+  | "cancelled"
+  | "error";
 
 // ─── Elapsed Timer Hook ────────────────────────────────────────────────────
 
@@ -78,6 +92,28 @@ function sortResults(results: BatchResult[], mode: SortMode): BatchResult[] {
   return sorted;
 }
 
+// ─── Matrix Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Adds or removes `value`, keeping the list in the order of `allValues`.
+ */
+function toggleValue<T>(list: T[], value: T, allValues: readonly T[]): T[] {
+  const next = list.includes(value)
+    ? list.filter((v) => v !== value)
+    : [...list, value];
+  return allValues.filter((v) => next.includes(v));
+}
+
+/**
+ * Parses a comma/space separated seed list. Returns null if any entry is not
+ * a non-negative integer.
+ */
+function parseSeeds(text: string): number[] | null {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  const seeds = parts.map(Number);
+  return seeds.every((n) => Number.isInteger(n) && n >= 0) ? seeds : null;
+}
+
 // ─── Page Component ─────────────────────────────────────────────────────────
 
 export default function BatchPage() {
@@ -90,21 +126,48 @@ export default function BatchPage() {
   // Batch state
   const [phase, setPhase] = useState<BatchPhase>("upload");
   const [batchId, setBatchId] = useState<string | null>(null);
-  const [inputFileName, setInputFileName] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<BatchAnalysis | null>(null);
-  const [results, setResults] = useState<BatchResult[]>([]);
-  const [completedCount, setCompletedCount] = useState(0);
-  const [currentLabel, setCurrentLabel] = useState("");
-  const [errors, setErrors] = useState<string[]>([]);
+  const [batchRun, setBatchRun] = useState<BatchRun | null>(null);
+  const [activeIterations, setActiveIterations] = useState<ActiveIteration[]>(
+    [],
+  );
   const [error, setError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  // Matrix
+  const [matrix, setMatrix] = useState<BatchMatrix>(DEFAULT_BATCH_MATRIX);
+  const [seedsText, setSeedsText] = useState("");
+  const [concurrency, setConcurrency] = useState<BatchConcurrency>(
+    DEFAULT_BATCH_CONCURRENCY,
+  );
 
   // Display
   const [sortMode, setSortMode] = useState<SortMode>("model-complexity-variant");
   const [ratings, setRatings] = useState<Record<string, Record<string, number>>>({});
   const [showAnalysis, setShowAnalysis] = useState(false);
-  const [saved, setSaved] = useState(false);
+  const [saved, setSaved] = useState(true);
+  const [progressRunId, setProgressRunId] = useState<string | null>(null);
 
   const timer = useElapsedTimer();
+  const stopTimer = timer.stop;
+
+  // null while the seed list is invalid or a matrix dimension is empty
+  const requestedMatrix =
+    parseSeeds(seedsText) &&
+    matrix.models.length > 0 &&
+    matrix.complexities.length > 0 &&
+    matrix.variants.length > 0
+      ? matrix
+      : null;
+  const requestedIterations = countBatchIterations(matrix);
+
+  const results = batchRun?.results ?? [];
+  const completedCount = results.length;
+  const errors = results
+    .filter((r) => r.error)
+    .map(
+      (r) => `${r.complexity} / ${r.variant} / ${r.modelLabel}: ${r.error}`,
+    );
 
   // ─── File Handling ────────────────────────────────────────────────────
 
@@ -113,12 +176,10 @@ export default function BatchPage() {
     setPreviewUrl(URL.createObjectURL(f));
     setBatchId(null);
     setAnalysis(null);
-    setResults([]);
-    setCompletedCount(0);
-    setErrors([]);
+    setBatchRun(null);
     setError(null);
     setRatings({});
-    setSaved(false);
+    setSaved(true);
     setPhase("upload");
   }
 
@@ -137,19 +198,24 @@ export default function BatchPage() {
   // ─── Run All Tests ────────────────────────────────────────────────────
 
   async function handleRunAll() {
-    if (!file) return;
+    if (!file || !requestedMatrix) return;
 
     setPhase("analyzing");
     setError(null);
-    setResults([]);
-    setErrors([]);
-    setCompletedCount(0);
-    setSaved(false);
+    setBatchRun(null);
+    setSaved(true);
+    setCancelling(false);
+    setActiveIterations([]);
     timer.start();
 
     // Step 1: Init batch + analyze
+    const initRunId = crypto.randomUUID();
+    setProgressRunId(initRunId);
     const formData = new FormData();
     formData.append("image", file);
+    formData.append("runId", initRunId);
+    formData.append("matrix", JSON.stringify(requestedMatrix));
+    formData.append("concurrency", JSON.stringify(concurrency));
     const initResult = await initBatchAction(formData);
 
     if (!initResult.success) {
@@ -159,82 +225,63 @@ export default function BatchPage() {
       return;
     }
 
-    const { batchId: bid, imageUrl, inputFileName: ifn, analysis: an } =
-      initResult.data;
-    setBatchId(bid);
-    setInputFileName(ifn);
-    setAnalysis(an);
-
-    // Step 2: Generate all iterations
+    // Step 2: Iterations now run in the server-side job; poll for status
+    setBatchId(initResult.data.batchId);
+    setAnalysis(initResult.data.analysis);
+    setBatchRun(initResult.data.batchRun);
     setPhase("generating");
+  }
+
+  // ─── Job Polling ──────────────────────────────────────────────────────
 
-    const allResults: BatchResult[] = [];
-    const allErrors: string[] = [];
-
-    for (const model of GENERATION_MODELS) {
-      for (const complexity of BATCH_COMPLEXITY_LEVELS) {
-        for (const variant of BATCH_VARIANTS) {
-          const label = `${complexity} / ${variant} / ${model.label}`;
-          setCurrentLabel(label);
-
-          const outputFileName = buildOutputFileName(
-            complexity,
-            variant,
-            model.id,
-          );
-
-          const iterResult = await generateIterationAction({
-            batchId: bid,
-            imageUrl,
-            analysisResult: an.analysisResult,
-            model: model.id,
-            complexity: complexity as ComplexityLevel,
-            variant: variant as PromptVariant,
-          });
-
-          if (iterResult.success) {
-            allResults.push({
-              model: model.id,
-              modelLabel: iterResult.data.modelLabel,
-              complexity,
-              variant,
-              outputFileName: iterResult.data.outputFileName,
-              generation: iterResult.data.generation,
-              generationMs: iterResult.data.generationMs,
-              postProcessMs: iterResult.data.postProcessMs,
-              ratings: {},
-            });
-          } else {
-            allErrors.push(`${label}: ${iterResult.error}`);
-            allResults.push({
-              model: model.id,
-              modelLabel: model.label,
-              complexity,
-              variant,
-              outputFileName,
-              generation: {
-                imageUrl: "",
-                width: undefined,
-                height: undefined,
-                model: model.id,
-                promptUsed: "",
-              },
-              generationMs: 0,
-              postProcessMs: 0,
-              ratings: {},
-              error: iterResult.error,
-            });
-          }
-
-          setResults([...allResults]);
-          setErrors([...allErrors]);
-          setCompletedCount(allResults.length);
-        }
+  useEffect(() => {
+    if (phase !== "generating" || !batchId) return;
+
+    let active = true;
+    const interval = setInterval(async () => {
+      const result = await getBatchStatusAction(batchId);
+      if (!active) return;
+      if (!result.success) {
+        setError(result.error);
+        return;
       }
-    }
 
-    timer.stop();
-    setPhase("done");
+      const { batchRun: run, status } = result.data;
+      setBatchRun(run);
+      setActiveIterations(result.data.activeIterations);
+      if (status === "running") return;
+
+      clearInterval(interval);
+      stopTimer();
+      setCancelling(false);
+      if (status === "completed") {
+        setPhase("done");
+      } else if (status === "cancelled") {
+        setPhase("cancelled");
+      } else {
+        setError(run.error ?? `Batch job ${status}`);
+        setPhase("error");
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => {
+      active = false;
+      clearInterval(interval);
+    };
+  }, [phase, batchId, stopTimer]);
+
+  // ─── Cancel Handler ───────────────────────────────────────────────────
+
+  async function handleCancel() {
+    if (!batchId) return;
+    setCancelling(true);
+
+    // Aborts the iteration currently running on the server
+    try {
+      await fetch(`/api/batch/${batchId}/cancel`, { method: "POST" });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
   }
 
   // ─── Rating Handler ───────────────────────────────────────────────────
@@ -250,22 +297,9 @@ export default function BatchPage() {
   // ─── Save Handler ─────────────────────────────────────────────────────
 
   async function handleSave() {
-    if (!batchId || !file) return;
-
-    const batchRun: BatchRun = {
-      id: batchId,
-      timestamp: new Date().toISOString(),
-      inputFileName: inputFileName ?? file.name,
-      totalIterations: TOTAL_ITERATIONS,
-      completedIterations: results.filter((r) => !r.error).length,
-      failedIterations: results.filter((r) => r.error).length,
-      results: results.map((r) => ({
-        ...r,
-        ratings: ratings[r.outputFileName] ?? r.ratings,
-      })),
-    };
+    if (!batchId) return;
 
-    const result = await saveBatchAction(batchRun);
+    const result = await saveRatingsAction(batchId, ratings);
     if (!result.success) {
       setError(result.error);
       return;
@@ -276,6 +310,7 @@ export default function BatchPage() {
   // ─── Render ───────────────────────────────────────────────────────────
 
   const isRunning = phase === "analyzing" || phase === "generating";
+  const canRun = !!file && !!requestedMatrix && !isRunning;
   const sortedResults = sortResults(results, sortMode);
 
   return (
@@ -291,9 +326,10 @@ export default function BatchPage() {
         Batch Test Harness
       </h1>
       <p style={{ color: "#666", marginBottom: 24, fontSize: 14 }}>
-        Run all {TOTAL_ITERATIONS} combinations (
-        {BATCH_COMPLEXITY_LEVELS.length} complexity x {BATCH_VARIANTS.length}{" "}
-        variants x {GENERATION_MODELS.length} models)
+        Run {requestedIterations} iterations ({matrix.models.length} models x{" "}
+        {matrix.complexities.length} complexity x {matrix.variants.length}{" "}
+        variants x {Math.max(matrix.seeds.length, 1)} seeds x{" "}
+        {matrix.repetitions} repetitions)
       </p>
 
       {/* ── Upload Area ──────────────────────────────────────────────── */}
@@ -335,34 +371,195 @@ export default function BatchPage() {
         )}
       </div>
 
+      {/* ── Matrix ───────────────────────────────────────────────────── */}
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))",
+          gap: 12,
+          marginBottom: 16,
+          fontSize: 13,
+        }}
+      >
+        <fieldset style={fieldsetStyle} disabled={isRunning}>
+          <legend style={legendStyle}>Models</legend>
+          {GENERATION_MODELS.map((m) => (
+            <label key={m.id} style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={matrix.models.includes(m.id)}
+                onChange={() =>
+                  setMatrix((prev) => ({
+                    ...prev,
+                    models: toggleValue(
+                      prev.models,
+                      m.id,
+                      GENERATION_MODELS.map((g) => g.id),
+                    ),
+                  }))
+                }
+              />
+              {m.label}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset style={fieldsetStyle} disabled={isRunning}>
+          <legend style={legendStyle}>Complexity</legend>
+          {ComplexityLevel.options.map((c) => (
+            <label key={c} style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={matrix.complexities.includes(c)}
+                onChange={() =>
+                  setMatrix((prev) => ({
+                    ...prev,
+                    complexities: toggleValue(
+                      prev.complexities,
+                      c,
+                      ComplexityLevel.options,
+                    ),
+                  }))
+                }
+              />
+              {c}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset style={fieldsetStyle} disabled={isRunning}>
+          <legend style={legendStyle}>Variants</legend>
+          {PromptVariant.options.map((v) => (
+            <label key={v} style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={matrix.variants.includes(v)}
+                onChange={() =>
+                  setMatrix((prev) => ({
+                    ...prev,
+                    variants: toggleValue(
+                      prev.variants,
+                      v,
+                      PromptVariant.options,
+                    ),
+                  }))
+                }
+              />
+              {v}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset style={fieldsetStyle} disabled={isRunning}>
+          <legend style={legendStyle}>Seeds &amp; Repetitions</legend>
+          <label style={{ display: "block", marginBottom: 8 }}>
+            Seeds
+            <input
+              type="text"
+              value={seedsText}
+              placeholder="random"
+              onChange={(e) => {
+                setSeedsText(e.target.value);
+                const seeds = parseSeeds(e.target.value);
+                if (seeds) setMatrix((prev) => ({ ...prev, seeds }));
+              }}
+              style={{
+                ...inputStyle,
+                border: `1px solid ${parseSeeds(seedsText) ? "#ccc" : "#dc2626"}`,
+              }}
+            />
+          </label>
+          <label style={{ display: "block" }}>
+            Repetitions per cell
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={matrix.repetitions}
+              onChange={(e) =>
+                setMatrix((prev) => ({
+                  ...prev,
+                  repetitions: Math.min(
+                    10,
+                    Math.max(1, Math.round(Number(e.target.value) || 1)),
+                  ),
+                }))
+              }
+              style={{ ...inputStyle, width: 64 }}
+            />
+          </label>
+        </fieldset>
+
+        <fieldset style={fieldsetStyle} disabled={isRunning}>
+          <legend style={legendStyle}>Concurrency</legend>
+          <label style={{ display: "block", marginBottom: 8 }}>
+            Max parallel iterations
+            <input
+              type="number"
+              min={1}
+              max={16}
+              value={concurrency.maxConcurrency}
+              onChange={(e) =>
+                setConcurrency((prev) => ({
+                  ...prev,
+                  maxConcurrency: Math.min(
+                    16,
+                    Math.max(1, Math.round(Number(e.target.value) || 1)),
+                  ),
+                }))
+              }
+              style={{ ...inputStyle, width: 64 }}
+            />
+          </label>
+          <div style={{ fontSize: 12, color: "#666" }}>
+            Per model: {concurrency.modelDefaults.maxConcurrency} parallel,{" "}
+            {concurrency.modelDefaults.requestsPerMinute} requests/min
+          </div>
+        </fieldset>
+      </div>
+
       {/* ── Run Button ───────────────────────────────────────────────── */}
       <div style={{ display: "flex", gap: 8, marginBottom: 16 }}>
         <button
           onClick={handleRunAll}
-          disabled={!file || isRunning}
-          style={btnStyle(!file || isRunning)}
+          disabled={!canRun}
+          style={btnStyle(!canRun)}
         >
-          {isRunning ? "Running..." : "Run All Tests"}
+          {isRunning ? "Running..." : `Run ${requestedIterations} Tests`}
         </button>
+        {phase === "generating" && (
+          <button
+            onClick={handleCancel}
+            disabled={cancelling}
+            style={btnStyle(cancelling)}
+          >
+            {cancelling ? "Cancelling..." : "Cancel"}
+          </button>
+        )}
         {results.length > 0 && (
           <button
             onClick={handleSave}
-            disabled={saved || isRunning}
-            style={btnStyle(saved || isRunning)}
+            disabled={saved}
+            style={btnStyle(saved)}
           >
-            {saved ? "Saved" : "Save All"}
+            {saved ? "Ratings Saved" : "Save Ratings"}
           </button>
         )}
-        {saved && (
+        {batchRun && (
           <span
             style={{
               color: "#16a34a",
               fontSize: 13,
               display: "flex",
               alignItems: "center",
+              gap: 4,
             }}
           >
-            Saved to test-results/{batchId}/
+            Saving to test-results/{batchId}/ as iterations finish
+            {phase === "generating" && " (safe to close this tab)"} —
+            <Link href={`/results/${batchId}`} style={{ color: "#2563eb" }}>
+              view results
+            </Link>
           </span>
         )}
       </div>
@@ -383,7 +580,7 @@ export default function BatchPage() {
             <span style={{ fontWeight: 600 }}>
               {phase === "analyzing"
                 ? "Analyzing..."
-                : `${completedCount}/${TOTAL_ITERATIONS}`}
+                : `${completedCount}/${batchRun?.totalIterations ?? requestedIterations}`}
             </span>
             <span style={{ color: "#666" }}>
               {(timer.elapsed / 1000).toFixed(1)}s
@@ -402,15 +599,18 @@ export default function BatchPage() {
             <div
               style={{
                 height: "100%",
-                width: `${phase === "analyzing" ? 2 : (completedCount / TOTAL_ITERATIONS) * 100}%`,
+                width: `${phase === "analyzing" ? 2 : (completedCount / (batchRun?.totalIterations ?? requestedIterations)) * 100}%`,
                 background: "#2563eb",
                 borderRadius: 3,
                 transition: "width 0.3s",
               }}
             />
           </div>
-          {phase === "generating" && currentLabel && (
-            <div style={{ color: "#4b5563" }}>{currentLabel}</div>
+          {phase === "generating" && cancelling && (
+            <div style={{ color: "#4b5563" }}>
+              Cancelling {activeIterations.length} running iteration
+              {activeIterations.length === 1 ? "" : "s"}...
+            </div>
           )}
           {errors.length > 0 && (
             <div style={{ color: "#dc2626", marginTop: 4 }}>
@@ -419,6 +619,15 @@ export default function BatchPage() {
           )}
         </div>
       )}
+      {phase === "analyzing" && <PipelineProgress runId={progressRunId} />}
+      {phase === "generating" &&
+        activeIterations.map((it) => (
+          <PipelineProgress
+            key={it.progressRunId}
+            runId={it.progressRunId}
+            label={it.label}
+          />
+        ))}
 
       {/* ── Error ────────────────────────────────────────────────────── */}
       {error && (
@@ -525,8 +734,10 @@ export default function BatchPage() {
             </select>
           </label>
           <span style={{ fontSize: 13, color: "#666" }}>
-            {results.filter((r) => !r.error).length} completed
+            {results.filter((r) => !r.error && !r.cancelled).length} completed
             {errors.length > 0 && `, ${errors.length} failed`}
+            {phase === "cancelled" &&
+              `, ${results.filter((r) => r.cancelled).length} cancelled`}
           </span>
         </div>
       )}
@@ -556,7 +767,7 @@ export default function BatchPage() {
       )}
 
       {/* ── Failed iterations ────────────────────────────────────────── */}
-      {errors.length > 0 && phase === "done" && (
+      {errors.length > 0 && (phase === "done" || phase === "cancelled") && (
         <div style={{ marginBottom: 16 }}>
           <div style={{ fontSize: 13, fontWeight: 600, marginBottom: 6, color: "#dc2626" }}>
             Failed Iterations ({errors.length})
@@ -595,6 +806,27 @@ function ResultCard({
   ratings: Record<string, number>;
   onRate: (criterion: string, value: number) => void;
 }) {
+  if (result.cancelled) {
+    return (
+      <div
+        style={{
+          border: "1px dashed #d4d4d4",
+          borderRadius: 6,
+          padding: 10,
+          background: "#fafafa",
+        }}
+      >
+        <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>
+          {result.modelLabel}
+        </div>
+        <div style={{ fontSize: 11, color: "#666", marginBottom: 6 }}>
+          {describeResultCell(result)}
+        </div>
+        <div style={{ fontSize: 11, color: "#999" }}>Cancelled</div>
+      </div>
+    );
+  }
+
   if (result.error) {
     return (
       <div
@@ -609,7 +841,7 @@ function ResultCard({
           {result.modelLabel}
         </div>
         <div style={{ fontSize: 11, color: "#666", marginBottom: 6 }}>
-          {result.complexity} / {result.variant}
+          {describeResultCell(result)}
         </div>
         <div style={{ fontSize: 11, color: "#991b1b" }}>{result.error}</div>
       </div>
@@ -632,7 +864,7 @@ function ResultCard({
         {result.modelLabel}
       </div>
       <div style={{ fontSize: 11, color: "#666", marginBottom: 6 }}>
-        {result.complexity} / {result.variant}
+        {describeResultCell(result)}
       </div>
 
       {/* Image */}
@@ -651,8 +883,19 @@ function ResultCard({
       <div style={{ fontSize: 11, color: "#888", marginBottom: 8 }}>
         gen {(result.generationMs / 1000).toFixed(1)}s | pp{" "}
         {(result.postProcessMs / 1000).toFixed(1)}s
+        {(result.generation.attempts ?? 1) > 1 &&
+          ` | ${result.generation.attempts} attempts`}
       </div>
 
+      {result.metrics && (
+        <div style={{ marginBottom: 8 }}>
+          <ColorabilityMetricsSummary
+            metrics={result.metrics}
+            complexity={result.complexity}
+          />
+        </div>
+      )}
+
       {/* Ratings */}
       <div style={{ display: "flex", flexDirection: "column", gap: 3 }}>
         {QUALITY_CRITERIA.map((c) => (
@@ -706,3 +949,31 @@ function btnStyle(disabled: boolean): React.CSSProperties {
     fontWeight: 500,
   };
 }
+
+const fieldsetStyle: React.CSSProperties = {
+  border: "1px solid #e5e5e5",
+  borderRadius: 6,
+  padding: "8px 12px",
+  margin: 0,
+};
+
+const legendStyle: React.CSSProperties = {
+  fontWeight: 600,
+  padding: "0 4px",
+};
+
+const checkboxLabelStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 6,
+  marginBottom: 4,
+};
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  marginTop: 4,
+  padding: "4px 8px",
+  borderRadius: 4,
+  border: "1px solid #ccc",
+  fontSize: 13,
+};
@@ -0,0 +1,88 @@
+"use server";
+
+import { randomUUID } from "crypto";
+import { getBookJobStatus, startBookJob } from "@/lib/book/runner";
+import {
+  getBookInputExtension,
+  initBookDir,
+  saveBookInput,
+} from "@/lib/book/storage";
+import {
+  type BookJobStatus,
+  type BookRun,
+  BookSpecSchema,
+} from "@/lib/book/types";
+
+// ─── ActionResult (same pattern as test/actions.ts) ────────────────────────
+
+type ActionResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+function fail(error: unknown): { success: false; error: string } {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error("[book-action]", message, error);
+  return { success: false, error: message };
+}
+
+// ─── 1. Save photos and start the book job ─────────────────────────────────
+
+/**
+ * Expects form fields "images" (one file per page, in order) and "spec"
+ * (JSON, see BookSpecSchema) with one entry in `pages` per image.
+ */
+export async function createBookAction(
+  formData: FormData,
+): Promise<ActionResult<BookRun>> {
+  try {
+    const files = formData.getAll("images") as File[];
+    if (files.length === 0) return fail(new Error("No images provided"));
+
+    const rawSpec = formData.get("spec") as string | null;
+    const specResult = BookSpecSchema.safeParse(
+      rawSpec ? JSON.parse(rawSpec) : undefined,
+    );
+    if (!specResult.success) {
+      return fail(new Error(`Invalid book: ${specResult.error.message}`));
+    }
+    const spec = specResult.data;
+    if (spec.pages.length !== files.length) {
+      return fail(
+        new Error(
+          `Expected options for ${files.length} pages, got ${spec.pages.length}`,
+        ),
+      );
+    }
+
+    const bookId = randomUUID().slice(0, 8) + "-" + Date.now();
+    console.log("[book] Create book:", bookId);
+    await initBookDir(bookId);
+
+    const inputFileNames: string[] = [];
+    for (const [index, file] of files.entries()) {
+      const buffer = Buffer.from(await file.arrayBuffer());
+      const ext = getBookInputExtension(file);
+      inputFileNames.push(await saveBookInput(bookId, index, buffer, ext));
+    }
+
+    // Pages are generated in the background; the page polls for status
+    const book = await startBookJob(bookId, spec, inputFileNames);
+    return { success: true, data: JSON.parse(JSON.stringify(book)) as BookRun };
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+// ─── 2. Poll job status ────────────────────────────────────────────────────
+
+export async function getBookStatusAction(
+  bookId: string,
+): Promise<ActionResult<BookJobStatus>> {
+  try {
+    const status = await getBookJobStatus(bookId);
+    const safeData = JSON.parse(JSON.stringify(status)) as BookJobStatus;
+    return { success: true, data: safeData };
+  } catch (error) {
+    return fail(error);
+  }
+}
@@ -0,0 +1,600 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { createBookAction, getBookStatusAction } from "./actions";
+import {
+  ComplexityLevel,
+  GENERATION_MODELS,
+  PaperSize,
+  PromptVariant,
+} from "@/lib/pipeline/types";
+import type {
+  ActiveBookPage,
+  BookPageOptions,
+  BookRun,
+  BookSpec,
+} from "@/lib/book/types";
+import { PipelineProgress } from "@/app/_components/pipeline-progress";
+
+// ─── Constants ──────────────────────────────────────────────────────────────
+
+// How often the page polls the server-side job while it runs
+const POLL_INTERVAL_MS = 1000;
+
+const MAX_PAGES = 50;
+
+type BookPhase = "setup" | "generating" | "done" | "cancelled" | "error";
+
+interface DraftPage extends BookPageOptions {
+  // Stable key for React, since pages can be reordered
+  key: string;
+  file: File;
+  previewUrl: string;
+}
+
+// ─── Page Component ─────────────────────────────────────────────────────────
+
+export default function BookPage() {
+  // Setup
+  const [pages, setPages] = useState<DraftPage[]>([]);
+  const [title, setTitle] = useState("My Coloring Book");
+  const [subtitle, setSubtitle] = useState("");
+  const [model, setModel] = useState<BookSpec["model"]>(GENERATION_MODELS[0].id);
+  const [paperSize, setPaperSize] = useState<PaperSize>("letter");
+  const [tableOfContents, setTableOfContents] = useState(true);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Job state
+  const [phase, setPhase] = useState<BookPhase>("setup");
+  const [book, setBook] = useState<BookRun | null>(null);
+  const [activePages, setActivePages] = useState<ActiveBookPage[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  const finishedCount =
+    book?.pages.filter(
+      (p) =>
+        p.status === "completed" ||
+        p.status === "failed" ||
+        p.status === "cancelled",
+    ).length ?? 0;
+
+  // ─── Photo Handling ───────────────────────────────────────────────────
+
+  function addFiles(files: File[]) {
+    const images = files.filter((f) => f.type.startsWith("image/"));
+    setPages((prev) =>
+      [
+        ...prev,
+        ...images.map((file) => ({
+          key: crypto.randomUUID(),
+          file,
+          previewUrl: URL.createObjectURL(file),
+          complexity: "child" as const,
+          variant: "direct-transform" as const,
+        })),
+      ].slice(0, MAX_PAGES),
+    );
+  }
+
+  function updatePage(index: number, changes: Partial<BookPageOptions>) {
+    setPages((prev) =>
+      prev.map((p, i) => (i === index ? { ...p, ...changes } : p)),
+    );
+  }
+
+  function movePage(index: number, offset: -1 | 1) {
+    setPages((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }
+
+  function removePage(index: number) {
+    setPages((prev) => prev.filter((_, i) => i !== index));
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setIsDragOver(false);
+    addFiles([...e.dataTransfer.files]);
+  }
+
+  // ─── Create Book ──────────────────────────────────────────────────────
+
+  async function handleCreate() {
+    if (pages.length === 0) return;
+
+    setPhase("generating");
+    setError(null);
+    setBook(null);
+    setActivePages([]);
+
+    const spec: BookSpec = {
+      title: title.trim(),
+      subtitle: subtitle.trim() || undefined,
+      model,
+      tableOfContents,
+      print: { paperSize },
+      pages: pages.map((p) => ({
+        complexity: p.complexity,
+        variant: p.variant,
+        title: p.title?.trim() || undefined,
+        caption: p.caption?.trim() || undefined,
+      })),
+    };
+    const formData = new FormData();
+    for (const p of pages) formData.append("images", p.file);
+    formData.append("spec", JSON.stringify(spec));
+
+    const result = await createBookAction(formData);
+    if (!result.success) {
+      setError(result.error);
+      setPhase("error");
+      return;
+    }
+    setBook(result.data);
+  }
+
+  // ─── Job Polling ──────────────────────────────────────────────────────
+
+  const bookId = book?.id;
+
+  useEffect(() => {
+    if (phase !== "generating" || !bookId) return;
+
+    let active = true;
+    const interval = setInterval(async () => {
+      const result = await getBookStatusAction(bookId);
+      if (!active) return;
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      const { book: run, status } = result.data;
+      setBook(run);
+      setActivePages(result.data.activePages);
+      if (status === "running" || status === "assembling") return;
+
+      clearInterval(interval);
+      setCancelling(false);
+      if (status === "completed") {
+        setPhase("done");
+      } else if (status === "cancelled") {
+        setPhase("cancelled");
+      } else {
+        setError(run.error ?? `Book job ${status}`);
+        setPhase("error");
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => {
+      active = false;
+      clearInterval(interval);
+    };
+  }, [phase, bookId]);
+
+  // ─── Cancel Handler ───────────────────────────────────────────────────
+
+  async function handleCancel() {
+    if (!bookId) return;
+    setCancelling(true);
+
+    // Aborts the pages currently generating on the server
+    try {
+      await fetch(`/api/book/${bookId}/cancel`, { method: "POST" });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  // ─── Render ───────────────────────────────────────────────────────────
+
+  const isRunning = phase === "generating";
+  const canCreate = pages.length > 0 && title.trim().length > 0 && !isRunning;
+  const failedPages = book?.pages.filter((p) => p.status === "failed") ?? [];
+
+  return (
+    <div
+      style={{
+        maxWidth: 1100,
+        margin: "0 auto",
+        padding: 24,
+        fontFamily: "var(--font-geist-sans), system-ui, sans-serif",
+      }}
+    >
+      <h1 style={{ fontSize: 24, fontWeight: 700, marginBottom: 4 }}>
+        Coloring Book
+      </h1>
+      <p style={{ color: "#666", marginBottom: 24, fontSize: 14 }}>
+        Turn up to {MAX_PAGES} photos into one printable PDF with a cover,
+        captions, page numbers and a table of contents
+      </p>
+
+      {/* ── Book Settings ────────────────────────────────────────────── */}
+      <fieldset
+        style={{ ...fieldsetStyle, marginBottom: 16, fontSize: 13 }}
+        disabled={isRunning}
+      >
+        <legend style={legendStyle}>Book</legend>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 12 }}>
+          <label style={{ flex: "1 1 240px" }}>
+            Title
+            <input
+              type="text"
+              value={title}
+              maxLength={80}
+              onChange={(e) => setTitle(e.target.value)}
+              style={{ ...inputStyle, width: "100%" }}
+            />
+          </label>
+          <label style={{ flex: "1 1 240px" }}>
+            Subtitle
+            <input
+              type="text"
+              value={subtitle}
+              maxLength={120}
+              onChange={(e) => setSubtitle(e.target.value)}
+              style={{ ...inputStyle, width: "100%" }}
+            />
+          </label>
+          <label>
+            Model
+            <select
+              value={model}
+              onChange={(e) => setModel(e.target.value as BookSpec["model"])}
+              style={inputStyle}
+            >
+              {GENERATION_MODELS.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Paper
+            <select
+              value={paperSize}
+              onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+              style={inputStyle}
+            >
+              {PaperSize.options
+                .filter((p) => p !== "custom")
+                .map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label style={{ ...checkboxLabelStyle, alignSelf: "flex-end" }}>
+            <input
+              type="checkbox"
+              checked={tableOfContents}
+              onChange={(e) => setTableOfContents(e.target.checked)}
+            />
+            Table of contents
+          </label>
+        </div>
+      </fieldset>
+
+      {/* ── Upload Area ──────────────────────────────────────────────── */}
+      {!isRunning && (
+        <div
+          onDrop={handleDrop}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragOver(true);
+          }}
+          onDragLeave={() => setIsDragOver(false)}
+          onClick={() => fileInputRef.current?.click()}
+          style={{
+            border: `2px dashed ${isDragOver ? "#2563eb" : "#ccc"}`,
+            borderRadius: 8,
+            padding: 24,
+            textAlign: "center",
+            cursor: "pointer",
+            background: isDragOver ? "#eff6ff" : "#fafafa",
+            marginBottom: 16,
+            transition: "all 0.15s",
+          }}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={(e) => {
+              addFiles([...(e.target.files ?? [])]);
+              e.target.value = "";
+            }}
+            style={{ display: "none" }}
+          />
+          <span style={{ color: "#999" }}>
+            Drop photos here or click to add pages ({pages.length}/{MAX_PAGES})
+          </span>
+        </div>
+      )}
+
+      {/* ── Pages ────────────────────────────────────────────────────── */}
+      {pages.map((p, index) => {
+        const status = book?.pages[index]?.status;
+        return (
+          <div key={p.key} style={pageRowStyle}>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={p.previewUrl}
+              alt={`Page ${index + 1}`}
+              style={{
+                width: 72,
+                height: 72,
+                objectFit: "cover",
+                borderRadius: 4,
+                border: "1px solid #e5e5e5",
+              }}
+            />
+            <div style={{ fontWeight: 600, width: 24 }}>{index + 1}</div>
+            <fieldset
+              disabled={isRunning}
+              style={{
+                display: "flex",
+                flexWrap: "wrap",
+                gap: 8,
+                flex: 1,
+                border: "none",
+                padding: 0,
+                margin: 0,
+              }}
+            >
+              <select
+                value={p.complexity}
+                onChange={(e) =>
+                  updatePage(index, {
+                    complexity: e.target.value as ComplexityLevel,
+                  })
+                }
+                style={inputStyle}
+              >
+                {ComplexityLevel.options.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={p.variant}
+                onChange={(e) =>
+                  updatePage(index, { variant: e.target.value as PromptVariant })
+                }
+                style={inputStyle}
+              >
+                {PromptVariant.options.map((v) => (
+                  <option key={v} value={v}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Title"
+                value={p.title ?? ""}
+                maxLength={80}
+                onChange={(e) => updatePage(index, { title: e.target.value })}
+                style={{ ...inputStyle, flex: "1 1 160px" }}
+              />
+              <input
+                type="text"
+                placeholder="Caption"
+                value={p.caption ?? ""}
+                maxLength={240}
+                onChange={(e) => updatePage(index, { caption: e.target.value })}
+                style={{ ...inputStyle, flex: "2 1 240px" }}
+              />
+              <button
+                onClick={() => movePage(index, -1)}
+                disabled={index === 0}
+                style={btnStyle(index === 0)}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => movePage(index, 1)}
+                disabled={index === pages.length - 1}
+                style={btnStyle(index === pages.length - 1)}
+              >
+                ↓
+              </button>
+              <button onClick={() => removePage(index)} style={btnStyle(false)}>
+                Remove
+              </button>
+            </fieldset>
+            {status && (
+              <span
+                style={{
+                  fontSize: 12,
+                  width: 80,
+                  color:
+                    status === "completed"
+                      ? "#16a34a"
+                      : status === "failed"
+                        ? "#dc2626"
+                        : "#666",
+                }}
+              >
+                {status}
+              </span>
+            )}
+          </div>
+        );
+      })}
+
+      {/* ── Create Button ────────────────────────────────────────────── */}
+      <div style={{ display: "flex", gap: 8, margin: "16px 0" }}>
+        <button
+          onClick={handleCreate}
+          disabled={!canCreate}
+          style={btnStyle(!canCreate)}
+        >
+          {isRunning
+            ? "Creating..."
+            : `Create ${pages.length}-Page Book`}
+        </button>
+        {isRunning && book?.status === "running" && (
+          <button
+            onClick={handleCancel}
+            disabled={cancelling}
+            style={btnStyle(cancelling)}
+          >
+            {cancelling ? "Cancelling..." : "Cancel"}
+          </button>
+        )}
+        {book && (
+          <span style={{ color: "#16a34a", fontSize: 13, alignSelf: "center" }}>
+            Saving to books/{book.id}/ as pages finish
+            {isRunning && " (safe to close this tab)"}
+          </span>
+        )}
+      </div>
+
+      {/* ── Progress ─────────────────────────────────────────────────── */}
+      {isRunning && book && (
+        <div
+          style={{
+            background: "#f0f9ff",
+            border: "1px solid #bfdbfe",
+            borderRadius: 6,
+            padding: 12,
+            marginBottom: 16,
+            fontSize: 13,
+            fontWeight: 600,
+          }}
+        >
+          {book.status === "assembling"
+            ? "Assembling PDF..."
+            : `${finishedCount}/${book.pages.length} pages`}
+        </div>
+      )}
+      {isRunning &&
+        activePages.map((active) => (
+          <PipelineProgress
+            key={active.progressRunId}
+            runId={active.progressRunId}
+            label={`Page ${active.index + 1}`}
+          />
+        ))}
+
+      {/* ── Error ────────────────────────────────────────────────────── */}
+      {error && (
+        <div
+          style={{
+            background: "#fef2f2",
+            border: "1px solid #fca5a5",
+            borderRadius: 6,
+            padding: 12,
+            marginBottom: 16,
+            fontSize: 13,
+            color: "#dc2626",
+          }}
+        >
+          {error}
+        </div>
+      )}
+      {phase === "cancelled" && (
+        <div style={{ color: "#666", fontSize: 13, marginBottom: 16 }}>
+          Book cancelled; no PDF was assembled. Finished pages are kept in
+          books/{book?.id}/
+        </div>
+      )}
+      {failedPages.length > 0 && (
+        <div style={{ color: "#dc2626", fontSize: 13, marginBottom: 16 }}>
+          {failedPages.length} page{failedPages.length === 1 ? "" : "s"} failed
+          and {failedPages.length === 1 ? "was" : "were"} left out of the book
+        </div>
+      )}
+
+      {/* ── Result ───────────────────────────────────────────────────── */}
+      {phase === "done" && book?.pdfFileName && (
+        <div>
+          <a
+            href={`/api/books/${book.id}/${book.pdfFileName}`}
+            download={`${book.title}.pdf`}
+            style={{ ...btnStyle(false), display: "inline-block", marginBottom: 12 }}
+          >
+            Download PDF
+          </a>
+          <object
+            data={`/api/books/${book.id}/${book.pdfFileName}`}
+            type="application/pdf"
+            style={{
+              width: "100%",
+              height: 800,
+              border: "1px solid #e5e5e5",
+              borderRadius: 6,
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Styles ─────────────────────────────────────────────────────────────────
+
+function btnStyle(disabled: boolean): React.CSSProperties {
+  return {
+    padding: "8px 16px",
+    borderRadius: 6,
+    border: "1px solid #ccc",
+    background: disabled ? "#f5f5f5" : "#fff",
+    color: disabled ? "#999" : "#333",
+    cursor: disabled ? "default" : "pointer",
+    fontSize: 13,
+    fontWeight: 500,
+    textDecoration: "none",
+  };
+}
+
+const fieldsetStyle: React.CSSProperties = {
+  border: "1px solid #e5e5e5",
+  borderRadius: 6,
+  padding: "8px 12px",
+  margin: 0,
+};
+
+const legendStyle: React.CSSProperties = {
+  fontWeight: 600,
+  padding: "0 4px",
+};
+
+const checkboxLabelStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 6,
+};
+
+const inputStyle: React.CSSProperties = {
+  display: "block",
+  marginTop: 4,
+  padding: "4px 8px",
+  borderRadius: 4,
+  border: "1px solid #ccc",
+  fontSize: 13,
+  boxSizing: "border-box",
+};
+
+const pageRowStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 12,
+  padding: 8,
+  marginBottom: 8,
+  border: "1px solid #e5e5e5",
+  borderRadius: 6,
+  fontSize: 13,
+};
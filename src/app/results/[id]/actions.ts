@@ -1,7 +1,17 @@
 "use server";
 
-import { loadMetadata, loadAnalysis, updateRatings } from "@/lib/batch/storage";
-import type { BatchRun, BatchAnalysis } from "@/lib/batch/types";
+import { loadAnalysis } from "@/lib/batch/storage";
+import {
+  getBatchJobStatus,
+  resumeBatchJob,
+  updateBatchRatings,
+} from "@/lib/batch/runner";
+import type {
+  BatchAnalysis,
+  BatchJobStatus,
+  BatchResumeMode,
+  BatchRun,
+} from "@/lib/batch/types";
 
 type ActionResult<T> =
   | { success: true; data: T }
@@ -15,8 +25,7 @@ function fail(error: unknown): { success: false; error: string } {
 
 // ─── Load batch run ────────────────────────────────────────────────────────
 
-export interface LoadBatchResult {
-  batchRun: BatchRun;
+export interface LoadBatchResult extends BatchJobStatus {
   analysis: BatchAnalysis;
 }
 
@@ -24,13 +33,13 @@ export async function loadBatchAction(
   batchId: string,
 ): Promise<ActionResult<LoadBatchResult>> {
   try {
-    const [batchRun, analysis] = await Promise.all([
-      loadMetadata(batchId),
+    const [jobStatus, analysis] = await Promise.all([
+      getBatchJobStatus(batchId),
       loadAnalysis(batchId),
     ]);
 
     const safeData = JSON.parse(
-      JSON.stringify({ batchRun, analysis }),
+      JSON.stringify({ ...jobStatus, analysis }),
     ) as LoadBatchResult;
 
     return { success: true, data: safeData };
@@ -39,6 +48,39 @@ export async function loadBatchAction(
   }
 }
 
+// ─── Poll job status ───────────────────────────────────────────────────────
+
+export async function pollBatchAction(
+  batchId: string,
+): Promise<ActionResult<BatchJobStatus>> {
+  try {
+    const status = await getBatchJobStatus(batchId);
+    const safeData = JSON.parse(JSON.stringify(status)) as BatchJobStatus;
+    return { success: true, data: safeData };
+  } catch (error) {
+    return fail(error);
+  }
+}
+
+// ─── Retry / resume ────────────────────────────────────────────────────────
+
+/**
+ * Starts a background job that re-runs the batch's failed or incomplete
+ * cells; the page polls for progress as with a new batch.
+ */
+export async function resumeBatchAction(
+  batchId: string,
+  mode: BatchResumeMode,
+): Promise<ActionResult<BatchRun>> {
+  try {
+    const batchRun = await resumeBatchJob(batchId, mode);
+    const safeData = JSON.parse(JSON.stringify(batchRun)) as BatchRun;
+    return { success: true, data: safeData };
+  } catch (error) {
+    return fail(error);
+  }
+}
+
 // ─── Update ratings ────────────────────────────────────────────────────────
 
 export async function updateRatingsAction(
@@ -46,7 +88,7 @@ export async function updateRatingsAction(
   ratings: Record<string, Record<string, number>>,
 ): Promise<ActionResult<void>> {
   try {
-    await updateRatings(batchId, ratings);
+    await updateBatchRatings(batchId, ratings);
     console.log("[results] Ratings updated for batch:", batchId);
     return { success: true, data: undefined };
   } catch (error) {
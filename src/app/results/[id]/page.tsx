@@ -1,14 +1,34 @@
 "use client";
 
 import { useState, useEffect, use } from "react";
-import { loadBatchAction, updateRatingsAction } from "./actions";
+import {
+  loadBatchAction,
+  pollBatchAction,
+  resumeBatchAction,
+  updateRatingsAction,
+} from "./actions";
+import {
+  ComplexityLevel,
+  GENERATION_MODELS,
+  PromptVariant,
+} from "@/lib/pipeline/types";
 import {
   QUALITY_CRITERIA,
+  type ActiveIteration,
   type BatchAnalysis,
+  type BatchMatrix,
   type BatchResult,
+  type BatchResumeMode,
   type BatchRun,
+  type BatchStatus,
   type SortMode,
+  describeResultCell,
 } from "@/lib/batch/types";
+import { ColorabilityMetricsSummary } from "@/app/_components/colorability-metrics";
+import { PipelineProgress } from "@/app/_components/pipeline-progress";
+
+// How often a running batch is re-fetched
+const POLL_INTERVAL_MS = 2000;
 
 // ─── Sort Helper ────────────────────────────────────────────────────────────
 
@@ -48,6 +68,11 @@ export default function ResultDetailPage({
   const [ratings, setRatings] = useState<Record<string, Record<string, number>>>({});
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [saved, setSaved] = useState(true);
+  const [status, setStatus] = useState<BatchStatus>("completed");
+  const [activeIterations, setActiveIterations] = useState<ActiveIteration[]>(
+    [],
+  );
+  const [resuming, setResuming] = useState(false);
 
   // Load data on mount
   useEffect(() => {
@@ -60,6 +85,8 @@ export default function ResultDetailPage({
       }
       setBatchRun(result.data.batchRun);
       setAnalysis(result.data.analysis);
+      setStatus(result.data.status);
+      setActiveIterations(result.data.activeIterations);
 
       // Pre-populate ratings from saved data
       const existingRatings: Record<string, Record<string, number>> = {};
@@ -74,6 +101,25 @@ export default function ResultDetailPage({
     load();
   }, [batchId]);
 
+  // Follow the server-side job while it is still running
+  useEffect(() => {
+    if (status !== "running") return;
+
+    let active = true;
+    const interval = setInterval(async () => {
+      const result = await pollBatchAction(batchId);
+      if (!active || !result.success) return;
+      setBatchRun(result.data.batchRun);
+      setStatus(result.data.status);
+      setActiveIterations(result.data.activeIterations);
+    }, POLL_INTERVAL_MS);
+
+    return () => {
+      active = false;
+      clearInterval(interval);
+    };
+  }, [batchId, status]);
+
   function setRating(fileName: string, criterion: string, value: number) {
     setRatings((prev) => ({
       ...prev,
@@ -82,6 +128,21 @@ export default function ResultDetailPage({
     setSaved(false);
   }
 
+  async function handleResume(mode: BatchResumeMode) {
+    setResuming(true);
+    setError(null);
+    const result = await resumeBatchAction(batchId, mode);
+    setResuming(false);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    // Switching back to "running" restarts polling
+    setBatchRun(result.data);
+    setActiveIterations([]);
+    setStatus("running");
+  }
+
   async function handleSaveRatings() {
     const result = await updateRatingsAction(batchId, ratings);
     if (!result.success) {
@@ -121,6 +182,12 @@ export default function ResultDetailPage({
   if (!batchRun) return null;
 
   const sortedResults = sortResults(batchRun.results, sortMode);
+  // Cancelled cells and cells that never ran
+  const incompleteCount =
+    batchRun.totalIterations -
+    batchRun.completedIterations -
+    batchRun.failedIterations;
+  const canResume = status !== "running" && !resuming;
   const inputImageSrc = `/api/test-images/${batchId}/${batchRun.inputFileName}`;
 
   return (
@@ -143,6 +210,9 @@ export default function ResultDetailPage({
             {batchRun.completedIterations}/{batchRun.totalIterations} completed
             {batchRun.failedIterations > 0 &&
               `, ${batchRun.failedIterations} failed`}
+            {(batchRun.cancelledIterations ?? 0) > 0 &&
+              `, ${batchRun.cancelledIterations} cancelled`}
+            {status !== "completed" && ` — ${status}`}
           </p>
         </div>
         <a
@@ -153,6 +223,51 @@ export default function ResultDetailPage({
         </a>
       </div>
 
+      {/* ── Running job ──────────────────────────────────────────────── */}
+      {status === "running" && (
+        <div
+          style={{
+            background: "#f0f9ff",
+            border: "1px solid #bfdbfe",
+            borderRadius: 6,
+            padding: 12,
+            marginBottom: 16,
+            fontSize: 13,
+            color: "#4b5563",
+          }}
+        >
+          Batch is still running
+          {activeIterations.length > 0 && (
+            <> ({activeIterations.length} in progress)</>
+          )}
+        </div>
+      )}
+      {status === "running" &&
+        activeIterations.map((it) => (
+          <PipelineProgress
+            key={it.progressRunId}
+            runId={it.progressRunId}
+            label={it.label}
+          />
+        ))}
+      {status === "interrupted" && (
+        <div
+          style={{
+            background: "#fffbeb",
+            border: "1px solid #fcd34d",
+            borderRadius: 6,
+            padding: 12,
+            marginBottom: 16,
+            fontSize: 13,
+            color: "#92400e",
+          }}
+        >
+          This batch stopped before finishing (the server restarted while it
+          was running). Results completed so far are shown below; use
+          &ldquo;Resume&rdquo; to run the rest.
+        </div>
+      )}
+
       {/* ── Error ────────────────────────────────────────────────────── */}
       {error && (
         <div
@@ -220,6 +335,11 @@ export default function ResultDetailPage({
         )}
       </div>
 
+      {/* ── Requested Matrix ─────────────────────────────────────────── */}
+      {batchRun.matrix && (
+        <MatrixSummary matrix={batchRun.matrix} results={batchRun.results} />
+      )}
+
       {/* ── Sort + Save Controls ─────────────────────────────────────── */}
       <div
         style={{
@@ -257,6 +377,24 @@ export default function ResultDetailPage({
         >
           {saved ? "Ratings Saved" : "Save Ratings"}
         </button>
+        {batchRun.failedIterations > 0 && (
+          <button
+            onClick={() => handleResume("failed")}
+            disabled={!canResume}
+            style={btnStyle(!canResume)}
+          >
+            Retry {batchRun.failedIterations} Failed
+          </button>
+        )}
+        {incompleteCount > 0 && (
+          <button
+            onClick={() => handleResume("incomplete")}
+            disabled={!canResume}
+            style={btnStyle(!canResume)}
+          >
+            Resume {incompleteCount} Incomplete
+          </button>
+        )}
       </div>
 
       {/* ── Results Grid ─────────────────────────────────────────────── */}
@@ -284,6 +422,102 @@ export default function ResultDetailPage({
   );
 }
 
+// ─── Matrix Summary Component ───────────────────────────────────────────────
+
+/**
+ * Grid of every model x complexity x variant cell. Requested cells show how
+ * many of their runs (seeds x repetitions) succeeded; skipped cells show a
+ * dash.
+ */
+function MatrixSummary({
+  matrix,
+  results,
+}: {
+  matrix: BatchMatrix;
+  results: BatchResult[];
+}) {
+  const runsPerCell = Math.max(matrix.seeds.length, 1) * matrix.repetitions;
+  const columns = ComplexityLevel.options.flatMap((complexity) =>
+    PromptVariant.options.map((variant) => ({ complexity, variant })),
+  );
+  const requestedCells =
+    matrix.models.length * matrix.complexities.length * matrix.variants.length;
+  const totalCells = GENERATION_MODELS.length * columns.length;
+
+  return (
+    <div style={{ marginBottom: 16, overflowX: "auto" }}>
+      <div style={{ fontSize: 13, fontWeight: 600, marginBottom: 6 }}>
+        Matrix{" "}
+        <span style={{ fontWeight: 400, color: "#666" }}>
+          ({requestedCells} of {totalCells} cells requested, {runsPerCell} run
+          {runsPerCell !== 1 ? "s" : ""} per cell
+          {matrix.seeds.length > 0 && `, seeds ${matrix.seeds.join(", ")}`})
+        </span>
+      </div>
+      <table style={{ borderCollapse: "collapse", fontSize: 11 }}>
+        <thead>
+          <tr>
+            <th />
+            {columns.map(({ complexity, variant }) => (
+              <th
+                key={`${complexity}-${variant}`}
+                style={{ padding: "2px 6px", fontWeight: 500, color: "#666" }}
+              >
+                {complexity}
+                <br />
+                {variant}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {GENERATION_MODELS.map((model) => (
+            <tr key={model.id} style={{ borderTop: "1px solid #f0f0f0" }}>
+              <td style={{ padding: "2px 6px", whiteSpace: "nowrap" }}>
+                {model.label}
+              </td>
+              {columns.map(({ complexity, variant }) => {
+                const requested =
+                  matrix.models.includes(model.id) &&
+                  matrix.complexities.includes(complexity) &&
+                  matrix.variants.includes(variant);
+                const cellResults = results.filter(
+                  (r) =>
+                    r.model === model.id &&
+                    r.complexity === complexity &&
+                    r.variant === variant,
+                );
+                const succeeded = cellResults.filter(
+                  (r) => !r.error && !r.cancelled,
+                ).length;
+                const failed = cellResults.some((r) => r.error);
+                return (
+                  <td
+                    key={`${complexity}-${variant}`}
+                    style={{
+                      padding: "2px 6px",
+                      textAlign: "center",
+                      color: !requested
+                        ? "#ccc"
+                        : failed
+                          ? "#dc2626"
+                          : succeeded === runsPerCell
+                            ? "#16a34a"
+                            : "#4b5563",
+                    }}
+                  >
+                    {requested ? `${succeeded}/${runsPerCell}` : "—"}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 // ─── Result Card Component ──────────────────────────────────────────────────
 
 function ResultCard({
@@ -297,6 +531,27 @@ function ResultCard({
   ratings: Record<string, number>;
   onRate: (criterion: string, value: number) => void;
 }) {
+  if (result.cancelled) {
+    return (
+      <div
+        style={{
+          border: "1px dashed #d4d4d4",
+          borderRadius: 6,
+          padding: 10,
+          background: "#fafafa",
+        }}
+      >
+        <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>
+          {result.modelLabel}
+        </div>
+        <div style={{ fontSize: 11, color: "#666", marginBottom: 6 }}>
+          {describeResultCell(result)}
+        </div>
+        <div style={{ fontSize: 11, color: "#999" }}>Cancelled</div>
+      </div>
+    );
+  }
+
   if (result.error) {
     return (
       <div
@@ -311,7 +566,7 @@ function ResultCard({
           {result.modelLabel}
         </div>
         <div style={{ fontSize: 11, color: "#666", marginBottom: 6 }}>
-          {result.complexity} / {result.variant}
+          {describeResultCell(result)}
         </div>
         <div style={{ fontSize: 11, color: "#991b1b" }}>{result.error}</div>
       </div>
@@ -333,7 +588,7 @@ function ResultCard({
         {result.modelLabel}
       </div>
       <div style={{ fontSize: 11, color: "#666", marginBottom: 6 }}>
-        {result.complexity} / {result.variant}
+        {describeResultCell(result)}
       </div>
 
       <img
@@ -350,8 +605,19 @@ function ResultCard({
       <div style={{ fontSize: 11, color: "#888", marginBottom: 8 }}>
         gen {(result.generationMs / 1000).toFixed(1)}s | pp{" "}
         {(result.postProcessMs / 1000).toFixed(1)}s
+        {(result.generation.attempts ?? 1) > 1 &&
+          ` | ${result.generation.attempts} attempts`}
       </div>
 
+      {result.metrics && (
+        <div style={{ marginBottom: 8 }}>
+          <ColorabilityMetricsSummary
+            metrics={result.metrics}
+            complexity={result.complexity}
+          />
+        </div>
+      )}
+
       <div style={{ display: "flex", flexDirection: "column", gap: 3 }}>
         {QUALITY_CRITERIA.map((c) => (
           <div
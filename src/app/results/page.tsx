@@ -1,10 +1,23 @@
 import Link from "next/link";
 import { listBatchRuns } from "@/lib/batch/storage";
+import { resolveBatchStatus } from "@/lib/batch/runner";
+import type { BatchStatus } from "@/lib/batch/types";
 
 export const dynamic = "force-dynamic";
 
+const STATUS_COLORS: Record<BatchStatus, string> = {
+  running: "#2563eb",
+  completed: "#16a34a",
+  cancelled: "#4b5563",
+  failed: "#dc2626",
+  interrupted: "#92400e",
+};
+
 export default async function ResultsPage() {
-  const runs = await listBatchRuns();
+  const runs = (await listBatchRuns()).map((run) => ({
+    ...run,
+    status: resolveBatchStatus(run),
+  }));
 
   return (
     <div
@@ -73,8 +86,10 @@ export default async function ResultsPage() {
             >
               <th style={{ padding: "8px 12px" }}>Date</th>
               <th style={{ padding: "8px 12px" }}>Input File</th>
+              <th style={{ padding: "8px 12px" }}>Status</th>
               <th style={{ padding: "8px 12px" }}>Completed</th>
               <th style={{ padding: "8px 12px" }}>Failed</th>
+              <th style={{ padding: "8px 12px" }}>Cancelled</th>
               <th style={{ padding: "8px 12px" }}>Rated</th>
               <th style={{ padding: "8px 12px" }}></th>
             </tr>
@@ -89,6 +104,14 @@ export default async function ResultsPage() {
                   {new Date(run.timestamp).toLocaleString()}
                 </td>
                 <td style={{ padding: "8px 12px" }}>{run.inputFileName}</td>
+                <td
+                  style={{
+                    padding: "8px 12px",
+                    color: STATUS_COLORS[run.status],
+                  }}
+                >
+                  {run.status}
+                </td>
                 <td style={{ padding: "8px 12px" }}>
                   {run.completedIterations}/{run.totalIterations}
                 </td>
@@ -100,6 +123,14 @@ export default async function ResultsPage() {
                 >
                   {run.failedIterations}
                 </td>
+                <td
+                  style={{
+                    padding: "8px 12px",
+                    color: run.cancelledIterations > 0 ? "#4b5563" : "#999",
+                  }}
+                >
+                  {run.cancelledIterations}
+                </td>
                 <td style={{ padding: "8px 12px" }}>
                   {run.hasRatings ? "Yes" : "No"}
                 </td>
@@ -4,25 +4,46 @@ import { mkdir, appendFile } from "fs/promises";
 import { join } from "path";
 import {
   type AnalysisResult,
+  type ColorByNumberOptions,
+  type ColorByNumberReport,
+  type ColorabilityMetrics,
+  type DotToDotOptions,
+  type DotToDotReport,
+  type FrameOptions,
+  type GapClosingOptions,
+  type GapClosingReport,
   type ImageAnalysis,
+  type LineWeightOptions,
+  type LineWeightReport,
   type GenerationResult,
-  GENERATION_MODELS,
+  type OutputFormat,
+  type PrintLayout,
+  type SolidFillOptions,
+  type SolidFillReport,
+  type SpeckleReport,
+  type ThresholdOptions,
+  type ThresholdReport,
+  type TracingOptions,
+  OUTPUT_MIME_TYPES,
+  PipelineOptionsSchema,
 } from "@/lib/pipeline/types";
+import { hashImageBytes } from "@/lib/pipeline/analysis-fixtures";
+import { imageAnalysisToAnalysisResult } from "@/lib/pipeline/analyzer";
 import {
-  analyzePhoto,
-  imageAnalysisToAnalysisResult,
-} from "@/lib/pipeline/analyzer";
+  getAnalysisProvider,
+  getGenerationProvider,
+} from "@/lib/pipeline/providers";
 import {
-  callImageEdit,
-  callImageGeneration,
-  uploadToFalStorage,
-} from "@/lib/pipeline/fal-client";
-import { postProcessColoringPage } from "@/lib/pipeline/post-process";
+  generateColoringPage,
+  postProcess,
+  resolvePostProcessOptions,
+} from "@/lib/pipeline/orchestrator";
+import { listFrameTemplates } from "@/lib/pipeline/frame";
 import {
-  buildEditPrompt,
-  buildGenerationPrompt,
-  getInferenceConfig,
-} from "@/lib/prompts/generation";
+  closeProgress,
+  createProgressPublisher,
+  runStage,
+} from "@/lib/pipeline/progress";
 import type { ComplexityLevel, PromptVariant } from "@/lib/pipeline/types";
 
 // ─── Result wrapper (server actions can't throw class instances) ─────────────
@@ -50,19 +71,26 @@ export interface AnalyzeResult {
 export async function analyzeAction(
   formData: FormData,
 ): Promise<ActionResult<AnalyzeResult>> {
+  // Optional id of a /api/progress stream the page is listening on
+  const runId = (formData.get("runId") as string | null) ?? undefined;
   try {
+    const onEvent = createProgressPublisher(runId);
     const file = formData.get("image") as File | null;
     console.log("[analyze] Action called, file:", file?.name, file?.size, "bytes");
     if (!file) return fail(new Error("No image file provided"));
 
-    console.log("[analyze] Uploading image to fal storage...");
-    const imageUrl = await uploadToFalStorage(file);
+    // Hash before uploading so recorded fixtures are found by the original bytes
+    const imageHash = await hashImageBytes(file);
+    console.log("[analyze] Uploading image...");
+    const imageUrl = await getGenerationProvider().upload(file, { onEvent });
     console.log("[analyze] Uploaded:", imageUrl);
 
-    console.log("[analyze] Running Claude analysis...");
-    const start = performance.now();
-    const imageAnalysis = await analyzePhoto(imageUrl);
-    const timingMs = Math.round(performance.now() - start);
+    console.log("[analyze] Running analysis...");
+    const { value: imageAnalysis, durationMs: timingMs } = await runStage(
+      "analysis",
+      onEvent,
+      () => getAnalysisProvider().analyze(imageUrl, { onEvent, imageHash }),
+    );
     console.log("[analyze] Done in", timingMs, "ms");
 
     const analysisResult = imageAnalysisToAnalysisResult(imageAnalysis);
@@ -76,6 +104,8 @@ export async function analyzeAction(
     return { success: true, data: safeData };
   } catch (error) {
     return fail(error);
+  } finally {
+    if (runId) closeProgress(runId);
   }
 }
 
@@ -88,8 +118,8 @@ export async function uploadAction(
     const file = formData.get("image") as File | null;
     if (!file) return fail(new Error("No image file provided"));
 
-    console.log("[upload] Uploading image to fal storage...");
-    const imageUrl = await uploadToFalStorage(file);
+    console.log("[upload] Uploading image...");
+    const imageUrl = await getGenerationProvider().upload(file);
     console.log("[upload] Uploaded:", imageUrl);
 
     return { success: true, data: imageUrl };
@@ -106,6 +136,35 @@ export interface GenerateParams {
   model: string;
   promptVariant: PromptVariant;
   complexity: ComplexityLevel;
+  outputFormat?: OutputFormat;
+  // Page layout when outputFormat is "pdf"
+  print?: Partial<PrintLayout>;
+  // Binarization method; omitted = auto-selected
+  threshold?: Partial<ThresholdOptions>;
+  // Removes specks and pinholes below this area (px) instead of the
+  // median filter; omitted = median filter
+  speckleArea?: number;
+  // Turns solid black areas into outlines; omitted = off
+  solidFills?: Partial<SolidFillOptions>;
+  // Redraws lines at the complexity's stroke width; omitted = off
+  lineWeight?: Partial<LineWeightOptions>;
+  // Bridges small outline breaks; omitted = off
+  gapClosing?: Partial<GapClosingOptions>;
+  // Numbers regions with colors sampled from the photo; omitted = off
+  colorByNumber?: Partial<ColorByNumberOptions>;
+  // Turns the subject's outline into numbered dots; omitted = off
+  dotToDot?: Partial<DotToDotOptions>;
+  // Analysis of the photo, to locate the subject drawn as dots; omitted =
+  // the whole page
+  imageAnalysis?: ImageAnalysis;
+  // Also renders a flat-colored preview from the photo
+  coloredPreview?: boolean;
+  // Also renders a tracing worksheet of dashed/gray guide lines
+  tracing?: Partial<TracingOptions>;
+  // Draws a decorative frame around the page; omitted = no frame
+  frame?: Partial<FrameOptions>;
+  // Optional id of a /api/progress stream the page is listening on
+  runId?: string;
 }
 
 export interface GenerateResult {
@@ -114,6 +173,18 @@ export interface GenerateResult {
   generation: GenerationResult;
   generationMs: number;
   postProcessMs: number;
+  metrics: ColorabilityMetrics;
+  threshold: ThresholdReport;
+  speckles?: SpeckleReport;
+  solidFills?: SolidFillReport;
+  lineWeight?: LineWeightReport;
+  gapClosing?: GapClosingReport;
+  colorByNumber?: ColorByNumberReport;
+  dotToDot?: DotToDotReport;
+  // Flat-colored reference PNG, when requested
+  previewBase64?: string;
+  // Tracing worksheet PNG, when requested
+  tracingBase64?: string;
 }
 
 export async function generateAction(
@@ -122,96 +193,88 @@ export async function generateAction(
   try {
     const { imageUrl, analysisResult, model, promptVariant, complexity } =
       params;
+    const onEvent = createProgressPublisher(params.runId);
+
+    const options = PipelineOptionsSchema.parse({
+      targetComplexity: complexity,
+      promptVariant,
+      model,
+      outputFormat: params.outputFormat,
+      print: params.print,
+      threshold: params.threshold,
+      speckleArea: params.speckleArea,
+      solidFills: params.solidFills,
+      lineWeight: params.lineWeight,
+      gapClosing: params.gapClosing,
+      colorByNumber: params.colorByNumber,
+      dotToDot: params.dotToDot,
+      coloredPreview: params.coloredPreview,
+      tracing: params.tracing,
+      frame: params.frame,
+    });
 
-    const modelInfo = GENERATION_MODELS.find((m) => m.id === model);
-    const isEdit = modelInfo?.type === "edit" || model.endsWith("/edit");
-
-    let generation: GenerationResult;
-    const genStart = performance.now();
-
-    if (isEdit) {
-      const prompt = buildEditPrompt(promptVariant, complexity, analysisResult);
-      console.log("[generate] Calling edit endpoint:", model);
-      console.log("[generate] Prompt length:", prompt.length, "chars");
-
-      const response = await callImageEdit({
-        model,
-        prompt,
-        imageUrls: [imageUrl],
-        outputFormat: "png",
-      });
-
-      const firstImage = response.images[0];
-      if (!firstImage) {
-        return fail(new Error("Image edit returned no images"));
-      }
-
-      generation = {
-        imageUrl: firstImage.url,
-        width: undefined,
-        height: undefined,
-        model,
-        promptUsed: prompt,
-        description: response.description,
-      };
-    } else {
-      const { prompt, negativePrompt } = buildGenerationPrompt(
-        promptVariant,
-        complexity,
-        analysisResult,
-      );
-      const inferenceConfig = getInferenceConfig(complexity);
-      console.log("[generate] Calling text-to-image:", model);
-
-      const response = await callImageGeneration({
-        prompt,
-        negativePrompt,
-        imageSize: "square_hd",
-        numInferenceSteps: inferenceConfig.numInferenceSteps,
-        guidanceScale: inferenceConfig.guidanceScale,
-      });
-
-      const firstImage = response.images[0];
-      if (!firstImage) {
-        return fail(new Error("Image generation returned no images"));
-      }
-
-      generation = {
-        imageUrl: firstImage.url,
-        width: firstImage.width,
-        height: firstImage.height,
-        model,
-        promptUsed: prompt,
-        negativePromptUsed: negativePrompt,
-        seed: response.seed,
-      };
-    }
-
-    const generationMs = Math.round(performance.now() - genStart);
+    console.log("[generate] Calling model:", model);
+    const { value: generation, durationMs: generationMs } = await runStage(
+      "generation",
+      onEvent,
+      () =>
+        generateColoringPage(
+          { image: imageUrl, options, onEvent },
+          analysisResult,
+        ),
+    );
     console.log("[generate] Generation done in", generationMs, "ms");
 
     console.log("[generate] Post-processing...");
-    const ppStart = performance.now();
-    const finalImage = await postProcessColoringPage(generation.imageUrl, {
-      outputFormat: "png",
-    });
-    const postProcessMs = Math.round(performance.now() - ppStart);
+    const { value: postProcessed, durationMs: postProcessMs } = await runStage(
+      "post-processing",
+      onEvent,
+      () =>
+        postProcess(
+          generation.imageUrl,
+          resolvePostProcessOptions(options, imageUrl, params.imageAnalysis),
+        ),
+    );
     console.log("[generate] Post-process done in", postProcessMs, "ms");
 
-    const imageBase64 = finalImage.toString("base64");
+    const imageBase64 = postProcessed.image.toString("base64");
 
     return {
       success: true,
       data: {
         imageBase64,
-        mimeType: "image/png",
+        mimeType: OUTPUT_MIME_TYPES[options.outputFormat],
         generation,
         generationMs,
         postProcessMs,
+        metrics: postProcessed.metrics,
+        threshold: postProcessed.threshold,
+        speckles: postProcessed.speckles,
+        solidFills: postProcessed.solidFills,
+        lineWeight: postProcessed.lineWeight,
+        gapClosing: postProcessed.gapClosing,
+        colorByNumber: postProcessed.colorByNumber,
+        dotToDot: postProcessed.dotToDot,
+        previewBase64: postProcessed.preview?.toString("base64"),
+        tracingBase64: postProcessed.tracing?.toString("base64"),
       },
     };
   } catch (error) {
     return fail(error);
+  } finally {
+    if (params.runId) closeProgress(params.runId);
+  }
+}
+
+// ─── Frame Templates Action ─────────────────────────────────────────────────
+
+export async function listFrameTemplatesAction(): Promise<
+  ActionResult<string[]>
+> {
+  try {
+    return { success: true, data: await listFrameTemplates() };
+  } catch (error) {
+    return fail(error);
   }
 }
 
@@ -228,6 +291,7 @@ export interface TestLogEntry {
   imageAnalysis?: ImageAnalysis;
   analysisResult?: AnalysisResult;
   generation: GenerationResult;
+  metrics?: ColorabilityMetrics;
   timing: {
     analysisMs?: number;
     generationMs: number;
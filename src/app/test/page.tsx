@@ -5,16 +5,25 @@ import {
   analyzeAction,
   uploadAction,
   generateAction,
+  listFrameTemplatesAction,
   saveLogAction,
   type AnalyzeResult,
   type GenerateResult,
   type TestLogEntry,
 } from "./actions";
 import {
+  FrameStyle,
   GENERATION_MODELS,
+  OutputFormat,
+  PaperSize,
+  ThresholdMode,
   type AnalysisResult,
   type ImageAnalysis,
 } from "@/lib/pipeline/types";
+import { DEFAULT_GAP_CLOSING_OPTIONS } from "@/lib/pipeline/raster";
+import { ColorByNumberLegend } from "@/app/_components/color-by-number-legend";
+import { ColorabilityMetricsSummary } from "@/app/_components/colorability-metrics";
+import { PipelineProgress } from "@/app/_components/pipeline-progress";
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
@@ -87,6 +96,24 @@ export default function TestPage() {
   const [model, setModel] = useState(GENERATION_MODELS[0].id as string);
   const [variant, setVariant] = useState<string>("direct-transform");
   const [complexity, setComplexity] = useState<string>("child");
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>("png");
+  const [paperSize, setPaperSize] = useState<PaperSize>("letter");
+  const [thresholdMode, setThresholdMode] = useState<ThresholdMode>("auto");
+  const [removeSpecks, setRemoveSpecks] = useState(false);
+  const [speckleArea, setSpeckleArea] = useState(16);
+  const [hollowFills, setHollowFills] = useState(false);
+  const [normalizeLines, setNormalizeLines] = useState(false);
+  const [closeGaps, setCloseGaps] = useState(false);
+  const [maxGap, setMaxGap] = useState(DEFAULT_GAP_CLOSING_OPTIONS.maxGap);
+  const [colorByNumber, setColorByNumber] = useState(false);
+  const [dotToDot, setDotToDot] = useState(false);
+  const [coloredPreview, setColoredPreview] = useState(false);
+  const [tracingSheet, setTracingSheet] = useState(false);
+  // "none", "auto" (the complexity's default frame) or a template name
+  const [frame, setFrame] = useState("none");
+  const [frameTemplates, setFrameTemplates] = useState<string[]>(
+    FrameStyle.options,
+  );
   const [useAnalysis, setUseAnalysis] = useState(true);
 
   // Results
@@ -109,9 +136,17 @@ export default function TestPage() {
   const [showAnalysis, setShowAnalysis] = useState(true);
   const [showPrompt, setShowPrompt] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [progressRunId, setProgressRunId] = useState<string | null>(null);
 
   const timer = useElapsedTimer();
 
+  // Custom frames from the templates directory join the built-in ones
+  useEffect(() => {
+    listFrameTemplatesAction().then((result) => {
+      if (result.success) setFrameTemplates(result.data);
+    });
+  }, []);
+
   // ─── File Handling ──────────────────────────────────────────────────────
 
   function handleFile(f: File) {
@@ -149,8 +184,11 @@ export default function TestPage() {
     timer.start();
 
     try {
+      const runId = crypto.randomUUID();
+      setProgressRunId(runId);
       const formData = new FormData();
       formData.append("image", file);
+      formData.append("runId", runId);
       const result = await analyzeAction(formData);
 
       timer.stop();
@@ -201,12 +239,33 @@ export default function TestPage() {
       setStatus("generating");
       timer.start();
 
+      const runId = crypto.randomUUID();
+      setProgressRunId(runId);
       const result = await generateAction({
         imageUrl: url,
         analysisResult: useAnalysis ? (analysisResult ?? undefined) : undefined,
         model,
         promptVariant: variant as "direct-transform" | "preservation-heavy" | "simplification-heavy",
         complexity: complexity as "toddler" | "child" | "tween" | "adult",
+        outputFormat,
+        print: outputFormat === "pdf" ? { paperSize } : undefined,
+        threshold: { mode: thresholdMode },
+        speckleArea: removeSpecks ? speckleArea : undefined,
+        solidFills: hollowFills ? {} : undefined,
+        lineWeight: normalizeLines ? {} : undefined,
+        gapClosing: closeGaps ? { maxGap } : undefined,
+        colorByNumber: colorByNumber ? {} : undefined,
+        dotToDot: dotToDot ? {} : undefined,
+        imageAnalysis: useAnalysis ? (imageAnalysis ?? undefined) : undefined,
+        coloredPreview,
+        tracing: tracingSheet ? {} : undefined,
+        frame:
+          frame === "none"
+            ? undefined
+            : frame === "auto"
+              ? {}
+              : { template: frame },
+        runId,
       });
 
       timer.stop();
@@ -240,6 +299,7 @@ export default function TestPage() {
       imageAnalysis: imageAnalysis ?? undefined,
       analysisResult: analysisResult ?? undefined,
       generation: generateResult.generation,
+      metrics: generateResult.metrics,
       timing: {
         analysisMs: analysisMs ?? undefined,
         generationMs: generateResult.generationMs,
@@ -373,6 +433,72 @@ export default function TestPage() {
           </select>
         </label>
 
+        <label style={{ fontSize: 13 }}>
+          Output
+          <select
+            value={outputFormat}
+            onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+            style={selectStyle}
+          >
+            {OutputFormat.options.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ fontSize: 13 }}>
+          Threshold
+          <select
+            value={thresholdMode}
+            onChange={(e) => setThresholdMode(e.target.value as ThresholdMode)}
+            style={selectStyle}
+          >
+            {ThresholdMode.options.map((m) => (
+              <option key={m} value={m}>
+                {m}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ fontSize: 13 }}>
+          Frame
+          <select
+            value={frame}
+            onChange={(e) => setFrame(e.target.value)}
+            style={selectStyle}
+          >
+            <option value="none">none</option>
+            <option value="auto">auto (by complexity)</option>
+            {frameTemplates.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {outputFormat === "pdf" && (
+          <label style={{ fontSize: 13 }}>
+            Paper
+            <select
+              value={paperSize}
+              onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+              style={selectStyle}
+            >
+              {PaperSize.options
+                .filter((p) => p !== "custom")
+                .map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+            </select>
+          </label>
+        )}
+
         <label
           style={{
             fontSize: 13,
@@ -388,6 +514,165 @@ export default function TestPage() {
           />
           Analysis (Claude)
         </label>
+
+        <label
+          style={{
+            fontSize: 13,
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={removeSpecks}
+            onChange={(e) => setRemoveSpecks(e.target.checked)}
+          />
+          Remove specks under
+          <input
+            type="number"
+            min={1}
+            value={speckleArea}
+            disabled={!removeSpecks}
+            onChange={(e) =>
+              setSpeckleArea(Math.max(1, Math.round(Number(e.target.value) || 1)))
+            }
+            style={{ width: 56, padding: "2px 4px", fontSize: 13 }}
+          />
+          px
+        </label>
+
+        <label
+          style={{
+            fontSize: 13,
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={hollowFills}
+            onChange={(e) => setHollowFills(e.target.checked)}
+          />
+          Hollow solid fills
+        </label>
+
+        <label
+          style={{
+            fontSize: 13,
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={normalizeLines}
+            onChange={(e) => setNormalizeLines(e.target.checked)}
+          />
+          Normalize line weight
+        </label>
+
+        <label
+          style={{
+            fontSize: 13,
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={closeGaps}
+            onChange={(e) => setCloseGaps(e.target.checked)}
+          />
+          Close gaps up to
+          <input
+            type="number"
+            min={1}
+            max={32}
+            value={maxGap}
+            disabled={!closeGaps}
+            onChange={(e) =>
+              setMaxGap(
+                Math.min(32, Math.max(1, Math.round(Number(e.target.value) || 1))),
+              )
+            }
+            style={{ width: 48, padding: "2px 4px", fontSize: 13 }}
+          />
+          px
+        </label>
+
+        <label
+          style={{
+            fontSize: 13,
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={colorByNumber}
+            onChange={(e) => {
+              setColorByNumber(e.target.checked);
+              if (e.target.checked) setDotToDot(false);
+            }}
+          />
+          Color by number
+        </label>
+
+        <label
+          style={{
+            fontSize: 13,
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={dotToDot}
+            onChange={(e) => {
+              setDotToDot(e.target.checked);
+              if (e.target.checked) setColorByNumber(false);
+            }}
+          />
+          Dot-to-dot
+        </label>
+
+        <label
+          style={{
+            fontSize: 13,
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={coloredPreview}
+            onChange={(e) => setColoredPreview(e.target.checked)}
+          />
+          Colored preview
+        </label>
+
+        <label
+          style={{
+            fontSize: 13,
+            display: "flex",
+            alignItems: "center",
+            gap: 6,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={tracingSheet}
+            onChange={(e) => setTracingSheet(e.target.checked)}
+          />
+          Tracing worksheet
+        </label>
       </div>
 
       {/* ── Action Buttons ───────────────────────────────────────────── */}
@@ -418,6 +703,9 @@ export default function TestPage() {
         </button>
       </div>
 
+      {/* ── Progress ─────────────────────────────────────────────────── */}
+      <PipelineProgress runId={progressRunId} />
+
       {/* ── Error ────────────────────────────────────────────────────── */}
       {error && (
         <div
@@ -481,7 +769,14 @@ export default function TestPage() {
         <div
           style={{
             display: "grid",
-            gridTemplateColumns: previewUrl && generateResult ? "1fr 1fr" : "1fr",
+            gridTemplateColumns: `repeat(${
+              [
+                previewUrl,
+                generateResult,
+                generateResult?.previewBase64,
+                generateResult?.tracingBase64,
+              ].filter(Boolean).length
+            }, 1fr)`,
             gap: 16,
             marginBottom: 16,
           }}
@@ -514,9 +809,59 @@ export default function TestPage() {
                   {GENERATION_MODELS.find((m) => m.id === model)?.label ?? model}
                 </span>
               </div>
+              {generateResult.mimeType === "application/pdf" ? (
+                <object
+                  data={`data:${generateResult.mimeType};base64,${generateResult.imageBase64}`}
+                  type="application/pdf"
+                  aria-label="Generated coloring page"
+                  style={{
+                    width: "100%",
+                    height: 600,
+                    borderRadius: 6,
+                    border: "1px solid #e5e5e5",
+                  }}
+                />
+              ) : (
+                <img
+                  src={`data:${generateResult.mimeType};base64,${generateResult.imageBase64}`}
+                  alt="Generated coloring page"
+                  style={{
+                    width: "100%",
+                    borderRadius: 6,
+                    border: "1px solid #e5e5e5",
+                  }}
+                />
+              )}
+            </div>
+          )}
+          {generateResult?.previewBase64 && (
+            <div>
+              <div
+                style={{ fontSize: 13, fontWeight: 600, marginBottom: 6 }}
+              >
+                Colored Preview
+              </div>
               <img
-                src={`data:${generateResult.mimeType};base64,${generateResult.imageBase64}`}
-                alt="Generated coloring page"
+                src={`data:image/png;base64,${generateResult.previewBase64}`}
+                alt="Colored preview"
+                style={{
+                  width: "100%",
+                  borderRadius: 6,
+                  border: "1px solid #e5e5e5",
+                }}
+              />
+            </div>
+          )}
+          {generateResult?.tracingBase64 && (
+            <div>
+              <div
+                style={{ fontSize: 13, fontWeight: 600, marginBottom: 6 }}
+              >
+                Tracing Worksheet
+              </div>
+              <img
+                src={`data:image/png;base64,${generateResult.tracingBase64}`}
+                alt="Tracing worksheet"
                 style={{
                   width: "100%",
                   borderRadius: 6,
@@ -552,6 +897,57 @@ export default function TestPage() {
             Post-process:{" "}
             <strong>{(generateResult.postProcessMs / 1000).toFixed(1)}s</strong>
           </span>
+          <span>
+            Threshold:{" "}
+            <strong>
+              {generateResult.threshold.method}{" "}
+              {generateResult.threshold.threshold}
+            </strong>
+          </span>
+          {generateResult.speckles && (
+            <span>
+              Cleanup:{" "}
+              <strong>{generateResult.speckles.specksRemoved}</strong> specks,{" "}
+              <strong>{generateResult.speckles.pinholesFilled}</strong> pinholes
+            </span>
+          )}
+          {generateResult.solidFills && (
+            <span>
+              Fills hollowed:{" "}
+              <strong>{generateResult.solidFills.fillsHollowed}</strong> (
+              {(generateResult.solidFills.areaRatio * 100).toFixed(1)}% of the
+              page)
+            </span>
+          )}
+          {generateResult.lineWeight && (
+            <span>
+              Stroke:{" "}
+              <strong>
+                {generateResult.lineWeight.strokeWidthBefore} →{" "}
+                {generateResult.lineWeight.strokeWidthAfter}px
+              </strong>{" "}
+              (target {generateResult.lineWeight.targetWidth}px
+              {generateResult.lineWeight.redrawn ? "" : ", already in range"})
+            </span>
+          )}
+          {generateResult.gapClosing && (
+            <span>
+              Regions:{" "}
+              <strong>
+                {generateResult.gapClosing.regionsBefore} →{" "}
+                {generateResult.gapClosing.regionsAfter}
+              </strong>{" "}
+              ({generateResult.gapClosing.gapsClosed} gaps closed)
+            </span>
+          )}
+          {generateResult.dotToDot && (
+            <span>
+              Dots:{" "}
+              <strong>{generateResult.dotToDot.dots}</strong>
+              {generateResult.dotToDot.dots === 0 &&
+                " (no closed subject outline found)"}
+            </span>
+          )}
           <span>
             Total:{" "}
             <strong>
@@ -567,6 +963,23 @@ export default function TestPage() {
         </div>
       )}
 
+      {/* ── Metrics ──────────────────────────────────────────────────── */}
+      {generateResult && (
+        <div style={{ marginBottom: 16 }}>
+          <ColorabilityMetricsSummary
+            metrics={generateResult.metrics}
+            complexity={complexity}
+          />
+        </div>
+      )}
+
+      {/* ── Color-by-number Legend ───────────────────────────────────── */}
+      {generateResult?.colorByNumber && (
+        <div style={{ marginBottom: 16 }}>
+          <ColorByNumberLegend report={generateResult.colorByNumber} />
+        </div>
+      )}
+
       {/* ── Prompt Inspector ─────────────────────────────────────────── */}
       {generateResult && (
         <div style={{ marginBottom: 16 }}>
@@ -0,0 +1,37 @@
+// In-memory registry of AbortControllers for running batches, so a cancel
+// request can abort the iteration that is currently in flight.
+// This module must only be imported in server-side code.
+
+// Kept on globalThis so dev-server module reloads share one registry
+const globalForBatches = globalThis as typeof globalThis & {
+  batchAbortControllers?: Map<string, AbortController>;
+};
+
+const controllers = (globalForBatches.batchAbortControllers ??= new Map());
+
+// ─── Signals ───────────────────────────────────────────────────────────────
+
+export function getBatchSignal(batchId: string): AbortSignal {
+  let controller = controllers.get(batchId);
+  if (!controller) {
+    controller = new AbortController();
+    controllers.set(batchId, controller);
+  }
+  return controller.signal;
+}
+
+// ─── Cancel / cleanup ──────────────────────────────────────────────────────
+
+/**
+ * Aborts the batch's in-flight work. Later calls to getBatchSignal for the
+ * same batch return the already-aborted signal until it is released.
+ */
+export function cancelBatch(batchId: string): void {
+  const controller = controllers.get(batchId) ?? new AbortController();
+  controllers.set(batchId, controller);
+  controller.abort(new Error(`Batch ${batchId} cancelled`));
+}
+
+export function releaseBatch(batchId: string): void {
+  controllers.delete(batchId);
+}
@@ -0,0 +1,462 @@
+import { generateColoringPage } from "@/lib/pipeline/orchestrator";
+import { postProcessColoringPage } from "@/lib/pipeline/post-process";
+import {
+  closeProgress,
+  createProgressPublisher,
+  runStage,
+} from "@/lib/pipeline/progress";
+import { getGenerationProvider } from "@/lib/pipeline/providers";
+import { PipelineOptionsSchema } from "@/lib/pipeline/types";
+import {
+  loadAnalysis,
+  loadInputImage,
+  loadMetadata,
+  saveMetadata,
+  saveOutputImage,
+  updateRatings,
+} from "./storage";
+import { getBatchSignal, releaseBatch } from "./cancellation";
+import { runScheduled } from "./scheduler";
+import {
+  type ActiveIteration,
+  type BatchIteration,
+  type BatchJobStatus,
+  type BatchResult,
+  type BatchResumeMode,
+  type BatchRun,
+  type BatchSpec,
+  type BatchStatus,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_BATCH_MATRIX,
+  buildBatchIterations,
+  buildOutputFileName,
+  describeIteration,
+  getModelLabel,
+  resolveModelRateLimit,
+} from "./types";
+
+// Runs batches in the background of the server process, independent of the
+// page that started them. metadata.json is rewritten after every iteration,
+// so progress survives a closed tab and partial results survive a crash.
+// This module must only be imported in server-side code.
+
+interface BatchJob {
+  run: BatchRun;
+  // In-flight iterations keyed by their index in the matrix
+  active: Map<number, ActiveIteration>;
+  // Chain of metadata.json writes, so they never interleave
+  saveQueue: Promise<void>;
+}
+
+// Kept on globalThis so dev-server module reloads share one registry
+const globalForJobs = globalThis as typeof globalThis & {
+  batchJobs?: Map<string, BatchJob>;
+};
+
+const jobs = (globalForJobs.batchJobs ??= new Map());
+
+// Content types for re-uploading a stored input image
+const INPUT_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+function placeholderResult(iteration: BatchIteration): BatchResult {
+  return {
+    model: iteration.model,
+    modelLabel: getModelLabel(iteration.model),
+    complexity: iteration.complexity,
+    variant: iteration.variant,
+    outputFileName: buildOutputFileName(
+      iteration.complexity,
+      iteration.variant,
+      iteration.model,
+      iteration,
+    ),
+    generation: {
+      imageUrl: "",
+      width: undefined,
+      height: undefined,
+      model: iteration.model,
+      promptUsed: "",
+    },
+    generationMs: 0,
+    postProcessMs: 0,
+    seed: iteration.seed,
+    repetition: iteration.repetition,
+    ratings: {},
+  };
+}
+
+function collectResults(slots: (BatchResult | undefined)[]): BatchResult[] {
+  return slots.filter((r): r is BatchResult => r !== undefined);
+}
+
+function updateCounts(run: BatchRun): void {
+  run.completedIterations = run.results.filter(
+    (r) => !r.error && !r.cancelled,
+  ).length;
+  run.failedIterations = run.results.filter((r) => r.error).length;
+  run.cancelledIterations = run.results.filter((r) => r.cancelled).length;
+}
+
+function snapshot(run: BatchRun): BatchRun {
+  return JSON.parse(JSON.stringify(run)) as BatchRun;
+}
+
+/**
+ * Queues a write of the job's current state to metadata.json.
+ */
+function persist(job: BatchJob): Promise<void> {
+  job.run.updatedAt = new Date().toISOString();
+  const metadata = snapshot(job.run);
+  job.saveQueue = job.saveQueue
+    .then(() => saveMetadata(metadata.id, metadata))
+    .catch((error) => {
+      console.error("[batch] Failed to save metadata:", metadata.id, error);
+    });
+  return job.saveQueue;
+}
+
+/**
+ * Status to report for a stored run: "running" runs without a job in this
+ * process were interrupted.
+ */
+export function resolveBatchStatus(
+  run: Pick<BatchRun, "id" | "status">,
+): BatchStatus {
+  const status = run.status ?? "completed";
+  if (status === "running" && !jobs.has(run.id)) return "interrupted";
+  return status;
+}
+
+// ─── Iteration ─────────────────────────────────────────────────────────────
+
+async function runIteration(
+  spec: BatchSpec,
+  iteration: BatchIteration,
+  signal: AbortSignal,
+  progressRunId: string,
+): Promise<BatchResult> {
+  const onEvent = createProgressPublisher(progressRunId);
+  const { outputFileName } = placeholderResult(iteration);
+  const options = PipelineOptionsSchema.parse({
+    targetComplexity: iteration.complexity,
+    promptVariant: iteration.variant,
+    model: iteration.model,
+    seed: iteration.seed,
+  });
+
+  const { value: generation, durationMs: generationMs } = await runStage(
+    "generation",
+    onEvent,
+    () =>
+      generateColoringPage(
+        { image: spec.imageUrl, options, signal, onEvent },
+        spec.analysisResult,
+      ),
+  );
+  console.log(`[batch] Generation done in ${generationMs}ms`);
+
+  const {
+    value: { image: finalImage, metrics },
+    durationMs: postProcessMs,
+  } = await runStage(
+    "post-processing",
+    onEvent,
+    () =>
+      postProcessColoringPage(generation.imageUrl, {
+        outputFormat: "png",
+        signal,
+      }),
+  );
+  console.log(`[batch] Post-process done in ${postProcessMs}ms`);
+
+  await saveOutputImage(spec.batchId, outputFileName, finalImage);
+
+  return {
+    ...placeholderResult(iteration),
+    generation,
+    generationMs,
+    postProcessMs,
+    metrics,
+  };
+}
+
+// ─── Job loop ──────────────────────────────────────────────────────────────
+
+/**
+ * Runs the iterations at the `pending` indices. `slots` holds results by
+ * iteration index (so completion order does not affect ordering) and may
+ * already contain results kept from an earlier run.
+ */
+async function executeJob(
+  job: BatchJob,
+  spec: BatchSpec,
+  iterations: BatchIteration[],
+  slots: (BatchResult | undefined)[],
+  pending: number[],
+): Promise<void> {
+  const signal = getBatchSignal(spec.batchId);
+  // Distinguishes progress channels of a resumed run from the earlier
+  // attempt's, which stay closed for a while after it ends
+  const executionId = Date.now().toString(36);
+
+  function record(index: number, result: BatchResult): Promise<void> {
+    slots[index] = result;
+    job.run.results = collectResults(slots);
+    updateCounts(job.run);
+    return persist(job);
+  }
+
+  try {
+    const notStarted = await runScheduled(
+      pending,
+      {
+        maxConcurrency: spec.concurrency.maxConcurrency,
+        keyOf: (index) => iterations[index].model,
+        limitFor: (model) => resolveModelRateLimit(spec.concurrency, model),
+        signal,
+      },
+      async (index) => {
+        const iteration = iterations[index];
+        // Cancelled while waiting for a slot
+        if (signal.aborted) {
+          await record(index, {
+            ...placeholderResult(iteration),
+            cancelled: true,
+          });
+          return;
+        }
+
+        const label = describeIteration(iteration);
+        const progressRunId = `${spec.batchId}-${executionId}-${index}`;
+        job.active.set(index, { label, progressRunId });
+        console.log(`[batch] Generating: ${label}`);
+
+        let result: BatchResult;
+        try {
+          result = await runIteration(spec, iteration, signal, progressRunId);
+        } catch (error) {
+          if (signal.aborted) {
+            result = { ...placeholderResult(iteration), cancelled: true };
+          } else {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            console.error(`[batch] ${label} failed:`, message);
+            result = { ...placeholderResult(iteration), error: message };
+          }
+        } finally {
+          job.active.delete(index);
+          closeProgress(progressRunId);
+        }
+
+        await record(index, result);
+      },
+    );
+
+    // Record the iterations that never started once cancelled
+    for (const position of notStarted) {
+      const index = pending[position];
+      slots[index] = { ...placeholderResult(iterations[index]), cancelled: true };
+    }
+    job.run.results = collectResults(slots);
+    updateCounts(job.run);
+    job.run.status =
+      (job.run.cancelledIterations ?? 0) > 0 ? "cancelled" : "completed";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[batch] Job failed:", spec.batchId, message);
+    job.run.status = "failed";
+    job.run.error = message;
+  } finally {
+    job.active.clear();
+    await persist(job);
+    jobs.delete(spec.batchId);
+    releaseBatch(spec.batchId);
+    console.log(`[batch] Job ${spec.batchId} ${job.run.status}`);
+  }
+}
+
+// ─── Public API ────────────────────────────────────────────────────────────
+
+/**
+ * Writes the initial metadata.json and starts executing the batch in the
+ * background. Returns as soon as the job is registered.
+ */
+export async function startBatchJob(spec: BatchSpec): Promise<BatchRun> {
+  if (jobs.has(spec.batchId)) {
+    throw new Error(`Batch ${spec.batchId} is already running`);
+  }
+
+  const iterations = buildBatchIterations(spec.matrix);
+
+  const job: BatchJob = {
+    run: {
+      id: spec.batchId,
+      timestamp: new Date().toISOString(),
+      inputFileName: spec.inputFileName,
+      totalIterations: iterations.length,
+      completedIterations: 0,
+      failedIterations: 0,
+      cancelledIterations: 0,
+      matrix: spec.matrix,
+      concurrency: spec.concurrency,
+      status: "running",
+      results: [],
+    },
+    active: new Map(),
+    saveQueue: Promise.resolve(),
+  };
+  jobs.set(spec.batchId, job);
+  await persist(job);
+
+  void executeJob(
+    job,
+    spec,
+    iterations,
+    new Array(iterations.length),
+    iterations.map((_, index) => index),
+  );
+  console.log(
+    `[batch] Job ${spec.batchId} started (${iterations.length} iterations)`,
+  );
+  return snapshot(job.run);
+}
+
+/**
+ * Re-runs the cells of a stored batch selected by `mode`, keeping every
+ * other result. Reuses the stored analysis and re-uploads the original
+ * input from disk, since the URL from the first run may have expired.
+ */
+export async function resumeBatchJob(
+  batchId: string,
+  mode: BatchResumeMode,
+): Promise<BatchRun> {
+  if (jobs.has(batchId)) {
+    throw new Error(`Batch ${batchId} is already running`);
+  }
+
+  const [run, analysis] = await Promise.all([
+    loadMetadata(batchId),
+    loadAnalysis(batchId),
+  ]);
+  // Batches saved before the matrix was configurable ran the default one
+  const matrix = run.matrix ?? DEFAULT_BATCH_MATRIX;
+  const concurrency = run.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+  const iterations = buildBatchIterations(matrix);
+
+  const existing = new Map(run.results.map((r) => [r.outputFileName, r]));
+  const slots = iterations.map(
+    (iteration) => existing.get(placeholderResult(iteration).outputFileName),
+  );
+  const pending = iterations
+    .map((_, index) => index)
+    .filter((index) => {
+      const result = slots[index];
+      return mode === "failed"
+        ? Boolean(result?.error)
+        : !result || Boolean(result.cancelled);
+    });
+  if (pending.length === 0) {
+    throw new Error(`Batch ${batchId} has no ${mode} iterations to run`);
+  }
+  for (const index of pending) slots[index] = undefined;
+
+  const input = await loadInputImage(batchId, run.inputFileName);
+  const extension = run.inputFileName.split(".").pop()?.toLowerCase() ?? "";
+  const imageUrl = await getGenerationProvider().upload(
+    new File([new Uint8Array(input)], run.inputFileName, {
+      type: INPUT_MIME_TYPES[extension] ?? "application/octet-stream",
+    }),
+  );
+
+  if (jobs.has(batchId)) {
+    throw new Error(`Batch ${batchId} is already running`);
+  }
+  // Drop a cancel that arrived after the previous job had finished
+  releaseBatch(batchId);
+
+  const job: BatchJob = {
+    run: {
+      ...run,
+      totalIterations: iterations.length,
+      matrix,
+      concurrency,
+      status: "running",
+      error: undefined,
+      results: collectResults(slots),
+    },
+    active: new Map(),
+    saveQueue: Promise.resolve(),
+  };
+  updateCounts(job.run);
+  jobs.set(batchId, job);
+  await persist(job);
+
+  const spec: BatchSpec = {
+    batchId,
+    inputFileName: run.inputFileName,
+    imageUrl,
+    analysisResult: analysis.analysisResult,
+    matrix,
+    concurrency,
+  };
+  void executeJob(job, spec, iterations, slots, pending);
+  console.log(
+    `[batch] Job ${batchId} resumed (${pending.length} ${mode} iterations)`,
+  );
+  return snapshot(job.run);
+}
+
+/**
+ * Live status for running jobs, or the stored metadata for finished ones.
+ */
+export async function getBatchJobStatus(
+  batchId: string,
+): Promise<BatchJobStatus> {
+  const job = jobs.get(batchId);
+  if (job) {
+    return {
+      batchRun: snapshot(job.run),
+      status: resolveBatchStatus(job.run),
+      activeIterations: [...job.active.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, active]) => active),
+    };
+  }
+
+  const batchRun = await loadMetadata(batchId);
+  return {
+    batchRun,
+    status: resolveBatchStatus(batchRun),
+    activeIterations: [],
+  };
+}
+
+/**
+ * Merges ratings into a batch. Goes through the job while it is running so
+ * the runner's own metadata writes do not overwrite them.
+ */
+export async function updateBatchRatings(
+  batchId: string,
+  ratings: Record<string, Record<string, number>>,
+): Promise<void> {
+  const job = jobs.get(batchId);
+  if (!job) {
+    await updateRatings(batchId, ratings);
+    return;
+  }
+
+  for (const result of job.run.results) {
+    if (ratings[result.outputFileName]) {
+      result.ratings = ratings[result.outputFileName];
+    }
+  }
+  await persist(job);
+}
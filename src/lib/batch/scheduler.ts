@@ -0,0 +1,113 @@
+import type { ModelRateLimit } from "./types";
+
+// Bounded-concurrency task scheduler with per-key (per-model) concurrency
+// caps and requests-per-minute limits. Items are started in list order
+// whenever their key has capacity, so an item blocked by its model's limits
+// does not hold up items for other models.
+
+const MINUTE_MS = 60_000;
+
+export interface ScheduleOptions<T> {
+  // Upper bound on tasks in flight across all keys
+  readonly maxConcurrency: number;
+  readonly keyOf: (item: T) => string;
+  readonly limitFor: (key: string) => ModelRateLimit;
+  // Once aborted, no further tasks are started
+  readonly signal?: AbortSignal;
+}
+
+function delay(ms: number): { promise: Promise<void>; cancel: () => void } {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const promise = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, Math.max(0, ms));
+  });
+  return { promise, cancel: () => clearTimeout(timer) };
+}
+
+function abortPromise(signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve) => {
+    if (!signal) return;
+    if (signal.aborted) resolve();
+    else signal.addEventListener("abort", () => resolve(), { once: true });
+  });
+}
+
+/**
+ * Runs `task` for every item under the given limits and waits for all
+ * started tasks to settle. Requests-per-minute counts task starts in a
+ * sliding 60s window (retries inside a task are not counted).
+ *
+ * Returns the indices of items that were never started because `signal`
+ * aborted. Rethrows the first error thrown by a task after all started
+ * tasks have settled; tasks are expected to handle their own failures.
+ */
+export async function runScheduled<T>(
+  items: readonly T[],
+  options: ScheduleOptions<T>,
+  task: (item: T, index: number) => Promise<void>,
+): Promise<number[]> {
+  const { maxConcurrency, keyOf, limitFor, signal } = options;
+  const pending = items.map((_, index) => index);
+  const active = new Map<number, Promise<void>>();
+  const activePerKey = new Map<string, number>();
+  const startTimes = new Map<string, number[]>();
+  const aborted = abortPromise(signal);
+  let failure: { error: unknown } | undefined;
+
+  function start(index: number, key: string, now: number): void {
+    activePerKey.set(key, (activePerKey.get(key) ?? 0) + 1);
+    startTimes.set(key, [...(startTimes.get(key) ?? []), now]);
+
+    const running = task(items[index], index)
+      .catch((error: unknown) => {
+        failure ??= { error };
+      })
+      .finally(() => {
+        active.delete(index);
+        activePerKey.set(key, (activePerKey.get(key) ?? 1) - 1);
+      });
+    active.set(index, running);
+  }
+
+  while (pending.length > 0 && !signal?.aborted) {
+    const now = Date.now();
+    let nextWindowAt = Infinity;
+
+    for (let p = 0; p < pending.length && active.size < maxConcurrency; ) {
+      const index = pending[p];
+      const key = keyOf(items[index]);
+      const limit = limitFor(key);
+
+      const recent = (startTimes.get(key) ?? []).filter(
+        (t) => t > now - MINUTE_MS,
+      );
+      startTimes.set(key, recent);
+
+      if ((activePerKey.get(key) ?? 0) >= limit.maxConcurrency) {
+        p++;
+      } else if (recent.length >= limit.requestsPerMinute) {
+        nextWindowAt = Math.min(nextWindowAt, recent[0] + MINUTE_MS);
+        p++;
+      } else {
+        pending.splice(p, 1);
+        start(index, key, now);
+      }
+    }
+
+    if (pending.length === 0) break;
+
+    // Wait until a task finishes, a rate-limit window opens, or we abort
+    const windowDelay =
+      nextWindowAt < Infinity ? delay(nextWindowAt - now) : undefined;
+    await Promise.race([
+      ...active.values(),
+      ...(windowDelay ? [windowDelay.promise] : []),
+      aborted,
+    ]);
+    windowDelay?.cancel();
+  }
+
+  await Promise.all(active.values());
+  if (failure) throw failure.error;
+  return pending;
+}
@@ -32,6 +32,13 @@ export async function saveInputImage(
   return fileName;
 }
 
+export async function loadInputImage(
+  batchId: string,
+  fileName: string,
+): Promise<Buffer> {
+  return readFile(join(getBatchDir(batchId), fileName));
+}
+
 // ─── Save output image ─────────────────────────────────────────────────────
 
 export async function saveOutputImage(
@@ -95,6 +102,8 @@ export async function listBatchRuns(): Promise<BatchRunSummary[]> {
           totalIterations: meta.totalIterations,
           completedIterations: meta.completedIterations,
           failedIterations: meta.failedIterations,
+          cancelledIterations: meta.cancelledIterations ?? 0,
+          status: meta.status ?? "completed",
           hasRatings,
         });
       } catch {
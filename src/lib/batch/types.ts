@@ -1,7 +1,13 @@
-import type {
-  ImageAnalysis,
-  AnalysisResult,
-  GenerationResult,
+import { z } from "zod";
+import {
+  ComplexityLevel,
+  GENERATION_MODELS,
+  GenerationModelIdSchema,
+  PromptVariant,
+  type ImageAnalysis,
+  type AnalysisResult,
+  type ColorabilityMetrics,
+  type GenerationResult,
 } from "@/lib/pipeline/types";
 
 // ─── Batch constants ───────────────────────────────────────────────────────
@@ -23,12 +29,72 @@ export const QUALITY_CRITERIA = [
   { key: "overall", label: "Overall Quality" },
 ] as const;
 
+// ─── Batch matrix ──────────────────────────────────────────────────────────
+
+// Drops repeated entries, keeping the first: repeats would name two
+// iterations' output files the same
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+// Which cells (model x complexity x variant) a batch runs, and how often.
+export const BatchMatrixSchema = z.object({
+  models: z.array(GenerationModelIdSchema).min(1).transform(unique),
+  complexities: z.array(ComplexityLevel).min(1).transform(unique),
+  variants: z.array(PromptVariant).min(1).transform(unique),
+  // Each cell runs once per seed; empty = provider-chosen seed
+  seeds: z.array(z.number().int().nonnegative()).transform(unique),
+  repetitions: z.number().int().min(1).max(10),
+});
+export type BatchMatrix = z.infer<typeof BatchMatrixSchema>;
+
+export const DEFAULT_BATCH_MATRIX: BatchMatrix = {
+  models: GENERATION_MODELS.map((m) => m.id),
+  complexities: [...BATCH_COMPLEXITY_LEVELS],
+  variants: [...BATCH_VARIANTS],
+  seeds: [],
+  repetitions: 1,
+};
+
+// ─── Concurrency ───────────────────────────────────────────────────────────
+
+export const ModelRateLimitSchema = z.object({
+  // Requests to one model in flight at once
+  maxConcurrency: z.number().int().min(1),
+  // Requests started per model in any 60s window
+  requestsPerMinute: z.number().int().min(1),
+});
+export type ModelRateLimit = z.infer<typeof ModelRateLimitSchema>;
+
+export const BatchConcurrencySchema = z.object({
+  // Iterations in flight across all models
+  maxConcurrency: z.number().int().min(1).max(16),
+  modelDefaults: ModelRateLimitSchema,
+  // Per-model overrides keyed by model id
+  models: z.record(z.string(), ModelRateLimitSchema.partial()),
+});
+export type BatchConcurrency = z.infer<typeof BatchConcurrencySchema>;
+
+export const DEFAULT_BATCH_CONCURRENCY: BatchConcurrency = {
+  maxConcurrency: 4,
+  modelDefaults: { maxConcurrency: 2, requestsPerMinute: 20 },
+  models: {},
+};
+
+export function resolveModelRateLimit(
+  concurrency: BatchConcurrency,
+  model: string,
+): ModelRateLimit {
+  return { ...concurrency.modelDefaults, ...concurrency.models[model] };
+}
+
 // ─── Sort modes ────────────────────────────────────────────────────────────
 
 export type SortMode = "model-complexity-variant" | "variant-model-complexity";
 
 // ─── Per-iteration result ──────────────────────────────────────────────────
 
+// Stored in BatchRun.results in matrix order, regardless of completion order
 export interface BatchResult {
   model: string;
   modelLabel: string;
@@ -38,8 +104,16 @@ export interface BatchResult {
   generation: GenerationResult;
   generationMs: number;
   postProcessMs: number;
+  // Measured on the binarized output; absent for failed iterations and
+  // batches run before metrics existed
+  metrics?: ColorabilityMetrics;
+  // Requested seed and 1-based repetition index within the cell
+  seed?: number;
+  repetition?: number;
   ratings: Record<string, number>;
   error?: string;
+  // Set when the batch was cancelled before this iteration finished
+  cancelled?: boolean;
 }
 
 // ─── Batch analysis data ───────────────────────────────────────────────────
@@ -50,6 +124,40 @@ export interface BatchAnalysis {
   timingMs: number;
 }
 
+// ─── Batch job ─────────────────────────────────────────────────────────────
+
+// "interrupted" is never written to disk: it is reported for runs whose
+// metadata still says "running" but whose job is not in this server process
+// (e.g. after a restart).
+export type BatchStatus =
+  | "running"
+  | "completed"
+  | "cancelled"
+  | "failed"
+  | "interrupted";
+
+// Which cells a resumed batch re-runs: "failed" = cells that errored,
+// "incomplete" = cells that were cancelled or never ran.
+export type BatchResumeMode = "failed" | "incomplete";
+
+export interface BatchIteration {
+  model: string;
+  complexity: ComplexityLevel;
+  variant: PromptVariant;
+  seed?: number;
+  repetition: number;
+}
+
+// Everything the job runner needs to execute a batch in the background
+export interface BatchSpec {
+  batchId: string;
+  inputFileName: string;
+  imageUrl: string;
+  analysisResult: AnalysisResult;
+  matrix: BatchMatrix;
+  concurrency: BatchConcurrency;
+}
+
 // ─── Top-level batch run metadata ──────────────────────────────────────────
 
 export interface BatchRun {
@@ -59,9 +167,33 @@ export interface BatchRun {
   totalIterations: number;
   completedIterations: number;
   failedIterations: number;
+  cancelledIterations?: number;
+  // Requested cells; absent in runs saved before the matrix was configurable
+  matrix?: BatchMatrix;
+  concurrency?: BatchConcurrency;
+  // Absent in metadata saved before the job runner existed (= completed)
+  status?: BatchStatus;
+  updatedAt?: string;
+  // Set when the job itself failed, as opposed to a single iteration
+  error?: string;
   results: BatchResult[];
 }
 
+// ─── Live job status ───────────────────────────────────────────────────────
+
+export interface ActiveIteration {
+  label: string;
+  // Progress channel of the iteration (see /api/progress/[runId])
+  progressRunId: string;
+}
+
+export interface BatchJobStatus {
+  batchRun: BatchRun;
+  status: BatchStatus;
+  // Iterations currently in flight, in matrix order
+  activeIterations: ActiveIteration[];
+}
+
 // ─── Summary for the listing page ──────────────────────────────────────────
 
 export interface BatchRunSummary {
@@ -71,6 +203,8 @@ export interface BatchRunSummary {
   totalIterations: number;
   completedIterations: number;
   failedIterations: number;
+  cancelledIterations: number;
+  status: BatchStatus;
   hasRatings: boolean;
 }
 
@@ -80,10 +214,79 @@ export function buildOutputFileName(
   complexity: string,
   variant: string,
   model: string,
+  options: { seed?: number; repetition?: number } = {},
 ): string {
   const modelSlug = model
     .replace(/^fal-ai\//, "")
     .replace(/\/edit$/, "")
     .replace(/[^a-z0-9-]/g, "-");
-  return `${complexity}--${variant}--${modelSlug}.png`;
+  // Suffixes only appear when used, so default runs keep their old names
+  const seedSuffix = options.seed !== undefined ? `--seed-${options.seed}` : "";
+  const repSuffix =
+    options.repetition !== undefined && options.repetition > 1
+      ? `--rep-${options.repetition}`
+      : "";
+  return `${complexity}--${variant}--${modelSlug}${seedSuffix}${repSuffix}.png`;
+}
+
+// ─── Iteration helpers ─────────────────────────────────────────────────────
+
+/**
+ * Expands a matrix into iterations: model, then complexity, then variant,
+ * then seed, then repetition.
+ */
+export function buildBatchIterations(matrix: BatchMatrix): BatchIteration[] {
+  const seeds = matrix.seeds.length > 0 ? matrix.seeds : [undefined];
+  const iterations: BatchIteration[] = [];
+  for (const model of matrix.models) {
+    for (const complexity of matrix.complexities) {
+      for (const variant of matrix.variants) {
+        for (const seed of seeds) {
+          for (let repetition = 1; repetition <= matrix.repetitions; repetition++) {
+            iterations.push({ model, complexity, variant, seed, repetition });
+          }
+        }
+      }
+    }
+  }
+  return iterations;
+}
+
+export function countBatchIterations(matrix: BatchMatrix): number {
+  return (
+    matrix.models.length *
+    matrix.complexities.length *
+    matrix.variants.length *
+    Math.max(matrix.seeds.length, 1) *
+    matrix.repetitions
+  );
+}
+
+export function getModelLabel(model: string): string {
+  return GENERATION_MODELS.find((m) => m.id === model)?.label ?? model;
+}
+
+export function describeIteration(iteration: BatchIteration): string {
+  const parts = [
+    iteration.complexity,
+    iteration.variant,
+    getModelLabel(iteration.model),
+  ];
+  if (iteration.seed !== undefined) parts.push(`seed ${iteration.seed}`);
+  if (iteration.repetition > 1) parts.push(`rep ${iteration.repetition}`);
+  return parts.join(" / ");
+}
+
+/**
+ * Short "complexity / variant [/ seed] [/ rep]" label for a result card.
+ */
+export function describeResultCell(
+  result: Pick<BatchResult, "complexity" | "variant" | "seed" | "repetition">,
+): string {
+  const parts = [result.complexity, result.variant];
+  if (result.seed !== undefined) parts.push(`seed ${result.seed}`);
+  if (result.repetition !== undefined && result.repetition > 1) {
+    parts.push(`rep ${result.repetition}`);
+  }
+  return parts.join(" / ");
 }
@@ -0,0 +1,330 @@
+import sharp from "sharp";
+import {
+  type PageGeometry,
+  type PdfPage,
+  POINTS_PER_INCH,
+  computePageGeometry,
+  drawCropMarks,
+  drawImage,
+  drawText,
+  encodePdfImage,
+  measureText,
+  rasterizeForPrint,
+  resolvePrintLayout,
+  wrapText,
+  writePdfDocument,
+} from "@/lib/pipeline/pdf";
+import type { PrintLayout } from "@/lib/pipeline/types";
+import type { RawImage } from "@/lib/pipeline/raster";
+import { type BookRun, getPageHeading } from "./types";
+
+// Assembles generated pages into one printable book: a cover, an optional
+// table of contents, then one numbered coloring page per photo with its
+// title and caption underneath.
+// This module must only be imported in server-side code.
+
+// Font sizes (pt)
+const COVER_TITLE_SIZE = 32;
+const COVER_SUBTITLE_SIZE = 16;
+const COVER_FOOTER_SIZE = 11;
+const CONTENTS_HEADING_SIZE = 24;
+const CONTENTS_ENTRY_SIZE = 12;
+const PAGE_TITLE_SIZE = 14;
+const CAPTION_SIZE = 11;
+const PAGE_NUMBER_SIZE = 10;
+
+const LINE_SPACING = 1.3;
+const MAX_CAPTION_LINES = 3;
+// Space (inches) reserved on the cover above and below the cover art
+const COVER_HEADER_IN = 2.5;
+const COVER_FOOTER_IN = 1;
+// Gap (pt) between the image and the text under it
+const TEXT_GAP_PT = 12;
+
+export interface AssembledPage {
+  // Processed coloring page (any format sharp can read)
+  readonly image: Buffer;
+  readonly title?: string;
+  readonly caption?: string;
+  // Heading listed in the table of contents
+  readonly heading: string;
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+async function decode(image: Buffer): Promise<RawImage> {
+  const { data, info } = await sharp(image)
+    .flatten({ background: "#ffffff" })
+    .toColourspace("b-w")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+function pageBoxes(
+  geometry: PageGeometry,
+): Pick<PdfPage, "media" | "bleed" | "trim"> {
+  return { media: geometry.media, bleed: geometry.bleed, trim: geometry.trim };
+}
+
+function finishContent(
+  layout: PrintLayout,
+  geometry: PageGeometry,
+  content: string[],
+): string {
+  if (layout.cropMarks) content.push(drawCropMarks(geometry, layout.bleedIn));
+  return content.join("\n");
+}
+
+/**
+ * Truncates text with an ellipsis so it fits `maxWidth`.
+ */
+function fitText(text: string, size: number, maxWidth: number): string {
+  if (measureText(text, size, "regular") <= maxWidth) return text;
+  let end = text.length;
+  while (end > 1 && measureText(`${text.slice(0, end)}...`, size, "regular") > maxWidth) {
+    end--;
+  }
+  return `${text.slice(0, end).trimEnd()}...`;
+}
+
+// ─── Cover ─────────────────────────────────────────────────────────────────
+
+async function buildCover(
+  book: BookRun,
+  layout: PrintLayout,
+  coverArt: RawImage | undefined,
+  pageCount: number,
+): Promise<PdfPage> {
+  const geometry = computePageGeometry(
+    layout,
+    coverArt?.width ?? 1,
+    coverArt?.height ?? 1,
+    { headerIn: COVER_HEADER_IN, footerIn: COVER_FOOTER_IN },
+  );
+  const { live } = geometry;
+  const centerX = live.x + live.width / 2;
+  const content: string[] = [];
+  const images = [];
+
+  let y = live.y + live.height - COVER_TITLE_SIZE;
+  for (const line of wrapText(book.title, COVER_TITLE_SIZE, "bold", live.width)) {
+    content.push(
+      drawText(line, centerX, y, {
+        size: COVER_TITLE_SIZE,
+        font: "bold",
+        align: "center",
+      }),
+    );
+    y -= COVER_TITLE_SIZE * LINE_SPACING;
+  }
+  if (book.subtitle) {
+    y -= COVER_SUBTITLE_SIZE * 0.5;
+    for (const line of wrapText(book.subtitle, COVER_SUBTITLE_SIZE, "regular", live.width)) {
+      content.push(
+        drawText(line, centerX, y, { size: COVER_SUBTITLE_SIZE, align: "center" }),
+      );
+      y -= COVER_SUBTITLE_SIZE * LINE_SPACING;
+    }
+  }
+
+  if (coverArt) {
+    const bitmap = await rasterizeForPrint(coverArt, geometry);
+    images.push(encodePdfImage("Cover", bitmap));
+    content.push(drawImage("Cover", geometry.image));
+  }
+
+  content.push(
+    drawText(
+      `A coloring book in ${pageCount} page${pageCount === 1 ? "" : "s"}`,
+      centerX,
+      live.y + (COVER_FOOTER_IN * POINTS_PER_INCH) / 2,
+      { size: COVER_FOOTER_SIZE, align: "center" },
+    ),
+  );
+
+  return {
+    ...pageBoxes(geometry),
+    content: finishContent(layout, geometry, content),
+    images,
+  };
+}
+
+// ─── Table of contents ─────────────────────────────────────────────────────
+
+function buildContents(
+  headings: string[],
+  layout: PrintLayout,
+): PdfPage[] {
+  const geometry = computePageGeometry(layout, 1, 1);
+  const { live } = geometry;
+  const lineHeight = CONTENTS_ENTRY_SIZE * 1.6;
+  const headingSpace = CONTENTS_HEADING_SIZE * 2.5;
+  const perPage = Math.max(
+    1,
+    Math.floor((live.height - headingSpace) / lineHeight),
+  );
+  const right = live.x + live.width;
+
+  const pages: PdfPage[] = [];
+  for (let start = 0; start < headings.length; start += perPage) {
+    const content = [
+      drawText(
+        start === 0 ? "Contents" : "Contents (continued)",
+        live.x,
+        live.y + live.height - CONTENTS_HEADING_SIZE,
+        { size: CONTENTS_HEADING_SIZE, font: "bold" },
+      ),
+    ];
+
+    headings.slice(start, start + perPage).forEach((heading, offset) => {
+      const pageNumber = String(start + offset + 1);
+      const y = live.y + live.height - headingSpace - offset * lineHeight;
+      const numberWidth = measureText(pageNumber, CONTENTS_ENTRY_SIZE, "regular");
+      const maxHeadingWidth = live.width - numberWidth - CONTENTS_ENTRY_SIZE * 3;
+      const text = fitText(heading, CONTENTS_ENTRY_SIZE, maxHeadingWidth);
+
+      // Dot leader between the heading and its page number
+      const leaderStart =
+        live.x + measureText(`${text} `, CONTENTS_ENTRY_SIZE, "regular");
+      const leaderEnd = right - numberWidth - CONTENTS_ENTRY_SIZE * 0.5;
+      const dotWidth = measureText(". ", CONTENTS_ENTRY_SIZE, "regular");
+      const dots = Math.max(0, Math.floor((leaderEnd - leaderStart) / dotWidth));
+
+      content.push(
+        drawText(text, live.x, y, { size: CONTENTS_ENTRY_SIZE }),
+        drawText(". ".repeat(dots).trimEnd(), leaderEnd, y, {
+          size: CONTENTS_ENTRY_SIZE,
+          align: "right",
+        }),
+        drawText(pageNumber, right, y, {
+          size: CONTENTS_ENTRY_SIZE,
+          align: "right",
+        }),
+      );
+    });
+
+    pages.push({
+      ...pageBoxes(geometry),
+      content: finishContent(layout, geometry, content),
+      images: [],
+    });
+  }
+  return pages;
+}
+
+// ─── Coloring pages ────────────────────────────────────────────────────────
+
+async function buildColoringPage(
+  page: AssembledPage,
+  pageNumber: number,
+  layout: PrintLayout,
+): Promise<PdfPage> {
+  const raw = await decode(page.image);
+  // Measure the text block first so the image can be fitted above it
+  const probe = computePageGeometry(layout, raw.width, raw.height);
+  const titleLines = page.title
+    ? wrapText(page.title, PAGE_TITLE_SIZE, "bold", probe.live.width).slice(0, 2)
+    : [];
+  const captionLines = page.caption
+    ? wrapText(page.caption, CAPTION_SIZE, "regular", probe.live.width).slice(
+        0,
+        MAX_CAPTION_LINES,
+      )
+    : [];
+  const textHeight =
+    titleLines.length * PAGE_TITLE_SIZE * LINE_SPACING +
+    captionLines.length * CAPTION_SIZE * LINE_SPACING;
+  const footerPt =
+    PAGE_NUMBER_SIZE * 2.5 + (textHeight > 0 ? textHeight + TEXT_GAP_PT : 0);
+
+  const geometry = computePageGeometry(layout, raw.width, raw.height, {
+    footerIn: footerPt / POINTS_PER_INCH,
+  });
+  const { live } = geometry;
+  const centerX = live.x + live.width / 2;
+  const bitmap = await rasterizeForPrint(raw, geometry);
+  const content = [drawImage("Page", geometry.image)];
+
+  // Text follows the image directly, so short images keep their caption close
+  const firstSize = titleLines.length > 0 ? PAGE_TITLE_SIZE : CAPTION_SIZE;
+  let y = geometry.image.y - TEXT_GAP_PT - firstSize;
+  for (const line of titleLines) {
+    content.push(
+      drawText(line, centerX, y, {
+        size: PAGE_TITLE_SIZE,
+        font: "bold",
+        align: "center",
+      }),
+    );
+    y -= PAGE_TITLE_SIZE * LINE_SPACING;
+  }
+  for (const line of captionLines) {
+    content.push(drawText(line, centerX, y, { size: CAPTION_SIZE, align: "center" }));
+    y -= CAPTION_SIZE * LINE_SPACING;
+  }
+  content.push(
+    drawText(String(pageNumber), centerX, live.y, {
+      size: PAGE_NUMBER_SIZE,
+      align: "center",
+    }),
+  );
+
+  return {
+    ...pageBoxes(geometry),
+    content: finishContent(layout, geometry, content),
+    images: [encodePdfImage("Page", bitmap)],
+  };
+}
+
+// ─── Public API ────────────────────────────────────────────────────────────
+
+/**
+ * Builds the book PDF. Coloring pages are numbered from 1; the cover and
+ * table of contents are unnumbered front matter.
+ */
+export async function assembleBookPdf(
+  book: BookRun,
+  pages: AssembledPage[],
+): Promise<Buffer> {
+  const layout = resolvePrintLayout(book.print);
+  const coverArt = pages[0] ? await decode(pages[0].image) : undefined;
+
+  const pdfPages: PdfPage[] = [
+    await buildCover(book, layout, coverArt, pages.length),
+  ];
+  if (book.tableOfContents) {
+    pdfPages.push(
+      ...buildContents(
+        pages.map((p) => p.heading),
+        layout,
+      ),
+    );
+  }
+  for (const [index, page] of pages.entries()) {
+    pdfPages.push(await buildColoringPage(page, index + 1, layout));
+  }
+  return writePdfDocument(pdfPages);
+}
+
+/**
+ * Pairs a book's completed pages with their headings, in book order.
+ * Pages that were not generated are skipped, and the rest are numbered as
+ * printed.
+ */
+export function toAssembledPages(
+  book: BookRun,
+  images: Map<string, Buffer>,
+): AssembledPage[] {
+  return book.pages
+    .flatMap((page) => {
+      const image = page.outputFileName && images.get(page.outputFileName);
+      return image ? [{ page, image }] : [];
+    })
+    .map(({ page, image }, index) => ({
+      image,
+      title: page.title,
+      caption: page.caption,
+      heading: getPageHeading(page, index),
+    }));
+}
@@ -0,0 +1,303 @@
+import {
+  cancelBatch,
+  getBatchSignal,
+  releaseBatch,
+} from "@/lib/batch/cancellation";
+import { runScheduled } from "@/lib/batch/scheduler";
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  resolveModelRateLimit,
+} from "@/lib/batch/types";
+import { runPipeline } from "@/lib/pipeline/orchestrator";
+import {
+  closeProgress,
+  createProgressPublisher,
+} from "@/lib/pipeline/progress";
+import { PipelineOptionsSchema } from "@/lib/pipeline/types";
+import { assembleBookPdf, toAssembledPages } from "./assemble";
+import {
+  loadBookInput,
+  loadBookMetadata,
+  loadBookPage,
+  saveBookMetadata,
+  saveBookPage,
+  saveBookPdf,
+} from "./storage";
+import type {
+  ActiveBookPage,
+  BookJobStatus,
+  BookRun,
+  BookSpec,
+  BookStatus,
+} from "./types";
+
+// Runs book jobs in the background of the server process: every photo goes
+// through the full pipeline, then the finished pages are assembled into one
+// PDF. metadata.json is rewritten after every page.
+// This module must only be imported in server-side code.
+
+interface BookJob {
+  book: BookRun;
+  // In-flight pages keyed by their index in the book
+  active: Map<number, ActiveBookPage>;
+  // Chain of metadata.json writes, so they never interleave
+  saveQueue: Promise<void>;
+}
+
+// Kept on globalThis so dev-server module reloads share one registry
+const globalForJobs = globalThis as typeof globalThis & {
+  bookJobs?: Map<string, BookJob>;
+};
+
+const jobs = (globalForJobs.bookJobs ??= new Map());
+
+const BOOK_PDF_FILE_NAME = "book.pdf";
+
+// Content types for handing a stored input photo to the pipeline
+const INPUT_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+// Books share the batch cancellation registry, under keys of their own
+function cancellationKey(bookId: string): string {
+  return `book-${bookId}`;
+}
+
+function snapshot(book: BookRun): BookRun {
+  return JSON.parse(JSON.stringify(book)) as BookRun;
+}
+
+/**
+ * Queues a write of the job's current state to metadata.json.
+ */
+function persist(job: BookJob): Promise<void> {
+  job.book.updatedAt = new Date().toISOString();
+  const metadata = snapshot(job.book);
+  job.saveQueue = job.saveQueue
+    .then(() => saveBookMetadata(metadata.id, metadata))
+    .catch((error) => {
+      console.error("[book] Failed to save metadata:", metadata.id, error);
+    });
+  return job.saveQueue;
+}
+
+/**
+ * Status to report for a stored book: books still generating or assembling
+ * without a job in this process were interrupted.
+ */
+export function resolveBookStatus(
+  book: Pick<BookRun, "id" | "status">,
+): BookStatus {
+  if (
+    (book.status === "running" || book.status === "assembling") &&
+    !jobs.has(book.id)
+  ) {
+    return "interrupted";
+  }
+  return book.status;
+}
+
+// ─── Pages ─────────────────────────────────────────────────────────────────
+
+async function generatePage(
+  job: BookJob,
+  index: number,
+  progressRunId: string,
+  signal: AbortSignal,
+): Promise<void> {
+  const { book } = job;
+  const page = book.pages[index];
+  const input = await loadBookInput(book.id, page.inputFileName);
+  const extension = page.inputFileName.split(".").pop()?.toLowerCase() ?? "";
+
+  const output = await runPipeline({
+    image: new File([new Uint8Array(input)], page.inputFileName, {
+      type: INPUT_MIME_TYPES[extension] ?? "application/octet-stream",
+    }),
+    options: PipelineOptionsSchema.parse({
+      targetComplexity: page.complexity,
+      promptVariant: page.variant,
+      model: book.model,
+      outputFormat: "png",
+    }),
+    signal,
+    onEvent: createProgressPublisher(progressRunId),
+  });
+
+  const outputFileName = `${page.inputFileName.replace(/\.[^.]+$/, "")}.png`;
+  await saveBookPage(book.id, outputFileName, output.finalImage);
+  page.outputFileName = outputFileName;
+  page.generationMs = Math.round(output.timing.totalMs);
+}
+
+// ─── Job loop ──────────────────────────────────────────────────────────────
+
+async function assemble(job: BookJob): Promise<void> {
+  const { book } = job;
+  const images = new Map<string, Buffer>();
+  for (const page of book.pages) {
+    if (page.status === "completed" && page.outputFileName) {
+      images.set(
+        page.outputFileName,
+        await loadBookPage(book.id, page.outputFileName),
+      );
+    }
+  }
+  if (images.size === 0) {
+    throw new Error("No pages were generated");
+  }
+
+  const pdf = await assembleBookPdf(book, toAssembledPages(book, images));
+  await saveBookPdf(book.id, BOOK_PDF_FILE_NAME, pdf);
+  book.pdfFileName = BOOK_PDF_FILE_NAME;
+}
+
+async function executeJob(job: BookJob): Promise<void> {
+  const { book } = job;
+  // Generation is the expensive part; pace it like a batch would for this model
+  const limit = resolveModelRateLimit(DEFAULT_BATCH_CONCURRENCY, book.model);
+  const signal = getBatchSignal(cancellationKey(book.id));
+
+  try {
+    const notStarted = await runScheduled(
+      book.pages.map((_, index) => index),
+      {
+        maxConcurrency: limit.maxConcurrency,
+        keyOf: () => book.model,
+        limitFor: () => limit,
+        signal,
+      },
+      async (index) => {
+        const page = book.pages[index];
+        // Cancelled while waiting for a slot
+        if (signal.aborted) {
+          page.status = "cancelled";
+          await persist(job);
+          return;
+        }
+
+        const progressRunId = `book-${book.id}-${index}`;
+        job.active.set(index, { index, progressRunId });
+        page.status = "running";
+        await persist(job);
+        console.log(`[book] Generating page ${index + 1}`);
+
+        try {
+          await generatePage(job, index, progressRunId, signal);
+          page.status = "completed";
+        } catch (error) {
+          if (signal.aborted) {
+            page.status = "cancelled";
+          } else {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            console.error(`[book] Page ${index + 1} failed:`, message);
+            page.status = "failed";
+            page.error = message;
+          }
+        } finally {
+          job.active.delete(index);
+          closeProgress(progressRunId);
+        }
+        await persist(job);
+      },
+    );
+
+    // A cancelled book is not assembled; its finished pages stay on disk
+    if (signal.aborted) {
+      for (const index of notStarted) book.pages[index].status = "cancelled";
+      book.status = "cancelled";
+      return;
+    }
+
+    book.status = "assembling";
+    await persist(job);
+    await assemble(job);
+    book.status = "completed";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("[book] Job failed:", book.id, message);
+    book.status = "failed";
+    book.error = message;
+  } finally {
+    job.active.clear();
+    await persist(job);
+    jobs.delete(book.id);
+    releaseBatch(cancellationKey(book.id));
+    console.log(`[book] Job ${book.id} ${book.status}`);
+  }
+}
+
+// ─── Public API ────────────────────────────────────────────────────────────
+
+/**
+ * Writes the initial metadata.json and starts generating the book in the
+ * background. `inputFileNames` are the saved photos, in page order.
+ */
+export async function startBookJob(
+  bookId: string,
+  spec: BookSpec,
+  inputFileNames: string[],
+): Promise<BookRun> {
+  if (jobs.has(bookId)) {
+    throw new Error(`Book ${bookId} is already running`);
+  }
+
+  const job: BookJob = {
+    book: {
+      id: bookId,
+      timestamp: new Date().toISOString(),
+      title: spec.title,
+      subtitle: spec.subtitle,
+      model: spec.model,
+      tableOfContents: spec.tableOfContents,
+      print: spec.print,
+      pages: spec.pages.map((options, index) => ({
+        ...options,
+        inputFileName: inputFileNames[index],
+        status: "pending",
+      })),
+      status: "running",
+    },
+    active: new Map(),
+    saveQueue: Promise.resolve(),
+  };
+  jobs.set(bookId, job);
+  await persist(job);
+
+  void executeJob(job);
+  console.log(`[book] Job ${bookId} started (${spec.pages.length} pages)`);
+  return snapshot(job.book);
+}
+
+/**
+ * Stops a running book: the pages in flight are aborted, no further pages
+ * start, and the PDF is not assembled.
+ */
+export function cancelBookJob(bookId: string): void {
+  if (!jobs.has(bookId)) return;
+  cancelBatch(cancellationKey(bookId));
+}
+
+/**
+ * Live status for running jobs, or the stored metadata for finished ones.
+ */
+export async function getBookJobStatus(bookId: string): Promise<BookJobStatus> {
+  const job = jobs.get(bookId);
+  if (job) {
+    return {
+      book: snapshot(job.book),
+      status: resolveBookStatus(job.book),
+      activePages: [...job.active.values()].sort((a, b) => a.index - b.index),
+    };
+  }
+
+  const book = await loadBookMetadata(bookId);
+  return { book, status: resolveBookStatus(book), activePages: [] };
+}
@@ -0,0 +1,152 @@
+import { readdir, readFile, writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import type { BookRun, BookSummary } from "./types";
+
+const BOOKS_DIR = join(process.cwd(), "books");
+
+// ─── Directory helpers ─────────────────────────────────────────────────────
+
+export function getBookDir(bookId: string): string {
+  return join(BOOKS_DIR, bookId);
+}
+
+function getInputsDir(bookId: string): string {
+  return join(BOOKS_DIR, bookId, "inputs");
+}
+
+function getPagesDir(bookId: string): string {
+  return join(BOOKS_DIR, bookId, "pages");
+}
+
+// ─── Create book directory ─────────────────────────────────────────────────
+
+export async function initBookDir(bookId: string): Promise<void> {
+  await mkdir(getInputsDir(bookId), { recursive: true });
+  await mkdir(getPagesDir(bookId), { recursive: true });
+}
+
+// ─── Input photos ──────────────────────────────────────────────────────────
+
+// Extensions input photos are stored under, by MIME type. The books route
+// serves each of these with its image content type.
+const INPUT_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+const ALLOWED_INPUT_EXTENSIONS = new Set(["png", "jpg", "jpeg", "webp"]);
+
+/**
+ * Extension to store an uploaded photo under: from its MIME type, else from
+ * its name if that is a known image extension, else "png". Never taken
+ * from the client unchecked.
+ */
+export function getBookInputExtension(file: File): string {
+  const fromName = file.name.includes(".")
+    ? file.name.split(".").pop()!.toLowerCase()
+    : "";
+  return (
+    INPUT_EXTENSIONS[file.type] ??
+    (ALLOWED_INPUT_EXTENSIONS.has(fromName) ? fromName : "png")
+  );
+}
+
+export async function saveBookInput(
+  bookId: string,
+  index: number,
+  buffer: Buffer,
+  extension: string,
+): Promise<string> {
+  if (!ALLOWED_INPUT_EXTENSIONS.has(extension)) {
+    throw new Error(`Unsupported input image extension: ${extension}`);
+  }
+  const fileName = `${String(index + 1).padStart(2, "0")}.${extension}`;
+  await writeFile(join(getInputsDir(bookId), fileName), buffer);
+  return fileName;
+}
+
+export async function loadBookInput(
+  bookId: string,
+  fileName: string,
+): Promise<Buffer> {
+  return readFile(join(getInputsDir(bookId), fileName));
+}
+
+// ─── Generated pages ───────────────────────────────────────────────────────
+
+export async function saveBookPage(
+  bookId: string,
+  fileName: string,
+  buffer: Buffer,
+): Promise<void> {
+  await writeFile(join(getPagesDir(bookId), fileName), buffer);
+}
+
+export async function loadBookPage(
+  bookId: string,
+  fileName: string,
+): Promise<Buffer> {
+  return readFile(join(getPagesDir(bookId), fileName));
+}
+
+// ─── Assembled PDF ─────────────────────────────────────────────────────────
+
+export async function saveBookPdf(
+  bookId: string,
+  fileName: string,
+  buffer: Buffer,
+): Promise<void> {
+  await writeFile(join(getBookDir(bookId), fileName), buffer);
+}
+
+// ─── Metadata ──────────────────────────────────────────────────────────────
+
+export async function saveBookMetadata(
+  bookId: string,
+  metadata: BookRun,
+): Promise<void> {
+  const filePath = join(getBookDir(bookId), "metadata.json");
+  await writeFile(filePath, JSON.stringify(metadata, null, 2), "utf-8");
+}
+
+export async function loadBookMetadata(bookId: string): Promise<BookRun> {
+  const filePath = join(getBookDir(bookId), "metadata.json");
+  const raw = await readFile(filePath, "utf-8");
+  return JSON.parse(raw) as BookRun;
+}
+
+// ─── List all books ────────────────────────────────────────────────────────
+
+export async function listBooks(): Promise<BookSummary[]> {
+  try {
+    const entries = await readdir(BOOKS_DIR, { withFileTypes: true });
+    const dirs = entries.filter((e) => e.isDirectory());
+
+    const summaries: BookSummary[] = [];
+    for (const dir of dirs) {
+      try {
+        const meta = await loadBookMetadata(dir.name);
+        summaries.push({
+          id: meta.id,
+          timestamp: meta.timestamp,
+          title: meta.title,
+          pageCount: meta.pages.length,
+          completedPages: meta.pages.filter((p) => p.status === "completed")
+            .length,
+          status: meta.status,
+        });
+      } catch {
+        // Skip directories without valid metadata
+      }
+    }
+
+    summaries.sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+    );
+    return summaries;
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,103 @@
+import { z } from "zod";
+import {
+  ComplexityLevel,
+  GenerationModelIdSchema,
+  PrintLayoutSchema,
+  PromptVariant,
+} from "@/lib/pipeline/types";
+
+// ─── Book spec ─────────────────────────────────────────────────────────────
+
+// One photo's page in the book, in reading order
+export const BookPageOptionsSchema = z.object({
+  complexity: ComplexityLevel,
+  variant: PromptVariant,
+  // Printed under the image and listed in the table of contents
+  title: z.string().trim().max(80).optional(),
+  caption: z.string().trim().max(240).optional(),
+});
+export type BookPageOptions = z.infer<typeof BookPageOptionsSchema>;
+
+export const BookSpecSchema = z.object({
+  title: z.string().trim().min(1).max(80),
+  subtitle: z.string().trim().max(120).optional(),
+  model: GenerationModelIdSchema,
+  pages: z.array(BookPageOptionsSchema).min(1).max(50),
+  tableOfContents: z.boolean(),
+  print: PrintLayoutSchema.partial().optional(),
+});
+export type BookSpec = z.infer<typeof BookSpecSchema>;
+
+// ─── Book run (metadata.json) ──────────────────────────────────────────────
+
+export type BookPageStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface BookPage extends BookPageOptions {
+  inputFileName: string;
+  status: BookPageStatus;
+  // Processed page under pages/, once generated
+  outputFileName?: string;
+  generationMs?: number;
+  error?: string;
+}
+
+// "interrupted" is never written to disk; see resolveBookStatus
+export type BookStatus =
+  | "running"
+  | "assembling"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "interrupted";
+
+export interface BookRun {
+  id: string;
+  timestamp: string;
+  updatedAt?: string;
+  title: string;
+  subtitle?: string;
+  model: string;
+  tableOfContents: boolean;
+  print?: BookSpec["print"];
+  pages: BookPage[];
+  status: BookStatus;
+  // Assembled book, once all pages are done
+  pdfFileName?: string;
+  error?: string;
+}
+
+export interface ActiveBookPage {
+  index: number;
+  // Progress channel of the page's pipeline run (see /api/progress/[runId])
+  progressRunId: string;
+}
+
+export interface BookJobStatus {
+  book: BookRun;
+  status: BookStatus;
+  activePages: ActiveBookPage[];
+}
+
+export interface BookSummary {
+  id: string;
+  timestamp: string;
+  title: string;
+  pageCount: number;
+  completedPages: number;
+  status: BookStatus;
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────────────
+
+/**
+ * Heading used for a page in the table of contents. `index` is the page's
+ * position among the printed pages, so the fallback matches its number.
+ */
+export function getPageHeading(page: BookPageOptions, index: number): string {
+  return page.title || page.caption || `Page ${index + 1}`;
+}
@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { throwIfCancelled } from "@/lib/pipeline/cancellation";
+import { loadImage } from "@/lib/pipeline/image-source";
+import {
+  type AnalysisProvider,
+  type ImageAnalysis,
+  ImageAnalysisSchema,
+  PipelineError,
+} from "@/lib/pipeline/types";
+
+// Record/replay of ImageAnalysis results, keyed by the SHA-256 of the image
+// bytes. Callers hash the original photo before uploading it and pass the
+// key as `imageHash`, so replay never downloads the image; without a key
+// the image is read from its URL or Buffer. Fixtures are plain JSON so they
+// can be committed and diffed. This module must only be imported in
+// server-side code.
+
+export const DEFAULT_ANALYSIS_FIXTURES_DIR = join(
+  process.cwd(),
+  "fixtures",
+  "analysis",
+);
+
+export interface AnalysisFixture {
+  hash: string;
+  recordedAt: string;
+  provider: string;
+  analysis: ImageAnalysis;
+}
+
+// ─── Hashing ────────────────────────────────────────────────────────────────
+
+function sha256(bytes: Buffer): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+/**
+ * Returns the hex SHA-256 of an uploaded photo or Buffer, read locally.
+ * Pass the result as `imageHash` before the photo is uploaded.
+ */
+export async function hashImageBytes(
+  image: File | Blob | Buffer,
+): Promise<string> {
+  return sha256(
+    Buffer.isBuffer(image) ? image : Buffer.from(await image.arrayBuffer()),
+  );
+}
+
+/**
+ * Returns the hex SHA-256 of the image bytes behind a Buffer or URL.
+ */
+export async function hashImage(
+  image: string | Buffer,
+  signal?: AbortSignal,
+): Promise<string> {
+  try {
+    return sha256(await loadImage(image, signal));
+  } catch (error) {
+    throwIfCancelled(signal, "analysis");
+    throw new PipelineError(
+      `Could not read image for fixture lookup: ${error instanceof Error ? error.message : String(error)}`,
+      "analysis",
+      error,
+    );
+  }
+}
+
+// ─── Fixture files ──────────────────────────────────────────────────────────
+
+function getFixturePath(fixturesDir: string, hash: string): string {
+  return join(fixturesDir, `${hash}.json`);
+}
+
+export async function loadAnalysisFixture(
+  fixturesDir: string,
+  hash: string,
+): Promise<AnalysisFixture | null> {
+  let raw: string;
+  try {
+    raw = await readFile(getFixturePath(fixturesDir, hash), "utf-8");
+  } catch {
+    return null;
+  }
+
+  const fixture = JSON.parse(raw) as AnalysisFixture;
+  const parsed = ImageAnalysisSchema.safeParse(fixture.analysis);
+  if (!parsed.success) {
+    throw new PipelineError(
+      `Analysis fixture ${hash} did not match schema: ${parsed.error.message}`,
+      "analysis",
+      parsed.error,
+    );
+  }
+  return { ...fixture, analysis: parsed.data };
+}
+
+export async function saveAnalysisFixture(
+  fixturesDir: string,
+  fixture: AnalysisFixture,
+): Promise<void> {
+  await mkdir(fixturesDir, { recursive: true });
+  await writeFile(
+    getFixturePath(fixturesDir, fixture.hash),
+    JSON.stringify(fixture, null, 2) + "\n",
+    "utf-8",
+  );
+}
+
+// ─── Providers ──────────────────────────────────────────────────────────────
+
+/**
+ * Wraps a live provider and writes every result to the fixtures directory.
+ */
+export function createRecordingProvider(
+  inner: AnalysisProvider,
+  fixturesDir: string = DEFAULT_ANALYSIS_FIXTURES_DIR,
+): AnalysisProvider {
+  return {
+    name: `record:${inner.name}`,
+    async analyze(image, options) {
+      const [hash, analysis] = await Promise.all([
+        options?.imageHash ?? hashImage(image, options?.signal),
+        inner.analyze(image, options),
+      ]);
+      await saveAnalysisFixture(fixturesDir, {
+        hash,
+        recordedAt: new Date().toISOString(),
+        provider: inner.name,
+        analysis,
+      });
+      return analysis;
+    },
+  };
+}
+
+/**
+ * Serves analyses from previously recorded fixtures only. Never calls an API;
+ * an image without a fixture is an error.
+ */
+export function createReplayProvider(
+  fixturesDir: string = DEFAULT_ANALYSIS_FIXTURES_DIR,
+): AnalysisProvider {
+  return {
+    name: "replay",
+    async analyze(image, options) {
+      const hash =
+        options?.imageHash ?? (await hashImage(image, options?.signal));
+      const fixture = await loadAnalysisFixture(fixturesDir, hash);
+      if (!fixture) {
+        throw new PipelineError(
+          `No recorded analysis for image ${hash} in ${fixturesDir}. Run once with ANALYSIS_PROVIDER=record to capture it.`,
+          "analysis",
+        );
+      }
+      return fixture.analysis;
+    },
+  };
+}
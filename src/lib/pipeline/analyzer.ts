@@ -1,10 +1,13 @@
 import Anthropic from "@anthropic-ai/sdk";
 import {
+  type AnalysisProvider,
   type AnalysisResult,
   type ImageAnalysis,
   ImageAnalysisSchema,
   PipelineError,
+  type ProviderCallOptions,
 } from "@/lib/pipeline/types";
+import { isRetryableError, withRetry } from "@/lib/pipeline/retry";
 import {
   buildAnalysisSystemPrompt,
   buildAnalysisUserPrompt,
@@ -96,7 +99,15 @@ const IMAGE_ANALYSIS_TOOL: Anthropic.Tool = {
 };
 
 function getClient(): Anthropic {
-  return new Anthropic();
+  // Retries and timeouts are handled by withRetry so the policy is uniform
+  // across fal and Claude calls.
+  return new Anthropic({ maxRetries: 0 });
+}
+
+function isRetryableAnthropicError(error: unknown): boolean {
+  if (error instanceof Anthropic.APIUserAbortError) return false;
+  if (error instanceof Anthropic.APIConnectionError) return true;
+  return isRetryableError(error);
 }
 
 function inferMediaType(
@@ -128,18 +139,36 @@ function inferMediaType(
   return "image/jpeg";
 }
 
+function decodeDataUrl(url: string): Buffer {
+  const commaIndex = url.indexOf(",");
+  const header = url.slice(0, commaIndex);
+  const payload = url.slice(commaIndex + 1);
+  return header.endsWith(";base64")
+    ? Buffer.from(payload, "base64")
+    : Buffer.from(decodeURIComponent(payload));
+}
+
 /**
  * Analyzes a photo using Claude's vision capabilities.
  * Returns structured analysis with subjects, background, and
  * complexity-aware preservation/simplification priorities.
  *
  * @param image - URL string or Buffer of the image to analyze
+ * @param options - Retry policy overrides, cancellation signal and event
+ *   listener
  */
 export async function analyzePhoto(
   image: string | Buffer,
+  options: ProviderCallOptions = {},
 ): Promise<ImageAnalysis> {
   const client = getClient();
 
+  // data: URLs (e.g. from the local generation provider) cannot be fetched
+  // by the API, so send their payload inline instead.
+  if (typeof image === "string" && image.startsWith("data:")) {
+    image = decodeDataUrl(image);
+  }
+
   const imageContent: Anthropic.ImageBlockParam =
     typeof image === "string"
       ? {
@@ -156,22 +185,36 @@ export async function analyzePhoto(
         };
 
   try {
-    const response = await client.messages.create({
-      model: ANALYSIS_MODEL,
-      max_tokens: 2048,
-      system: buildAnalysisSystemPrompt(),
-      tools: [IMAGE_ANALYSIS_TOOL],
-      tool_choice: { type: "tool", name: "record_analysis" },
-      messages: [
-        {
-          role: "user",
-          content: [
-            imageContent,
-            { type: "text", text: buildAnalysisUserPrompt() },
-          ],
-        },
-      ],
-    });
+    const { value: response, attempts } = await withRetry(
+      (signal) =>
+        client.messages.create(
+          {
+            model: ANALYSIS_MODEL,
+            max_tokens: 2048,
+            system: buildAnalysisSystemPrompt(),
+            tools: [IMAGE_ANALYSIS_TOOL],
+            tool_choice: { type: "tool", name: "record_analysis" },
+            messages: [
+              {
+                role: "user",
+                content: [
+                  imageContent,
+                  { type: "text", text: buildAnalysisUserPrompt() },
+                ],
+              },
+            ],
+          },
+          { signal },
+        ),
+      {
+        label: "Claude analysis",
+        stage: "analysis",
+        policy: options.retry,
+        signal: options.signal,
+        isRetryable: isRetryableAnthropicError,
+        onEvent: options.onEvent,
+      },
+    );
 
     const toolBlock = response.content.find(
       (block): block is Anthropic.ToolUseBlock => block.type === "tool_use",
@@ -181,6 +224,8 @@ export async function analyzePhoto(
       throw new PipelineError(
         `Claude did not call the analysis tool. Stop reason: ${response.stop_reason}`,
         "analysis",
+        undefined,
+        { attempts },
       );
     }
 
@@ -190,19 +235,14 @@ export async function analyzePhoto(
         `Analysis tool output did not match schema: ${parsed.error.message}`,
         "analysis",
         parsed.error,
+        { attempts },
       );
     }
 
     return parsed.data;
   } catch (error) {
+    // API errors arrive here already wrapped by withRetry
     if (error instanceof PipelineError) throw error;
-    if (error instanceof Anthropic.APIError) {
-      throw new PipelineError(
-        `Claude API error (${error.status}): ${error.message}`,
-        "analysis",
-        error,
-      );
-    }
     throw new PipelineError(
       `Image analysis failed: ${error instanceof Error ? error.message : String(error)}`,
       "analysis",
@@ -211,6 +251,11 @@ export async function analyzePhoto(
   }
 }
 
+export const claudeAnalysisProvider: AnalysisProvider = {
+  name: "claude",
+  analyze: analyzePhoto,
+};
+
 // ─── Mapper: ImageAnalysis → AnalysisResult ─────────────────────────────────
 
 /**
@@ -0,0 +1,53 @@
+import { type PipelineStage, PipelineError } from "@/lib/pipeline/types";
+
+/**
+ * Builds the PipelineError raised when a run is aborted through its
+ * AbortSignal. Callers distinguish it from failures via `error.cancelled`.
+ */
+export function createCancelledError(
+  stage: PipelineStage,
+  cause?: unknown,
+  attempts?: number,
+): PipelineError {
+  return new PipelineError(`Cancelled during ${stage}`, stage, cause, {
+    attempts,
+    cancelled: true,
+  });
+}
+
+export function throwIfCancelled(
+  signal: AbortSignal | undefined,
+  stage: PipelineStage,
+): void {
+  if (signal?.aborted) throw createCancelledError(stage, signal.reason);
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof PipelineError && error.cancelled;
+}
+
+/**
+ * Resolves after `ms`, or rejects with a cancellation error as soon as
+ * `signal` aborts.
+ */
+export function sleep(
+  ms: number,
+  signal: AbortSignal | undefined,
+  stage: PipelineStage,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createCancelledError(stage, signal.reason));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createCancelledError(stage, signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,309 @@
+import type {
+  ColorByNumberLegendEntry,
+  ColorByNumberOptions,
+  ColorByNumberReport,
+  ComplexityLevel,
+} from "@/lib/pipeline/types";
+import {
+  type RawImage,
+  MIN_REGION_AREA,
+  distanceToPaper,
+  labelRegions,
+  toInkMask,
+} from "@/lib/pipeline/raster";
+import { drawLabel, labelWidth } from "@/lib/pipeline/digits";
+import {
+  type Rgb,
+  averageRegionColors,
+  samplePhoto,
+} from "@/lib/pipeline/photo-colors";
+
+// Color-by-number: every paper region of the finished line art takes the
+// average color of the photo beneath it; those colors are clustered into a
+// small palette, and each region is labelled with its palette number at the
+// point farthest from its outline.
+//
+// Pipeline: label regions → sample the photo per region → k-means palette
+//           (in Lab) → draw numbers → legend
+
+const PALETTE_SIZES: Record<ComplexityLevel, number> = {
+  toddler: 6,
+  child: 10,
+  tween: 14,
+  adult: 20,
+};
+
+export const DEFAULT_COLOR_BY_NUMBER_OPTIONS: Omit<
+  ColorByNumberOptions,
+  "paletteSize"
+> = {
+  minLabelHeight: 10,
+  maxLabelHeight: 36,
+};
+
+// Gray the numbers are drawn in, dark enough to read but lighter than the
+// outlines
+const LABEL_LEVEL = 110;
+
+const KMEANS_ITERATIONS = 20;
+
+// Share of a region's greatest depth a label position must have
+const LABEL_DEPTH_SHARE = 0.9;
+
+// Region colors closer than this (CIE76 ΔE) never get separate numbers
+const MIN_COLOR_DIFFERENCE = 5;
+
+export function resolveColorByNumberOptions(
+  complexity: ComplexityLevel,
+  overrides?: Partial<ColorByNumberOptions>,
+): ColorByNumberOptions {
+  return {
+    paletteSize: PALETTE_SIZES[complexity],
+    ...DEFAULT_COLOR_BY_NUMBER_OPTIONS,
+    ...overrides,
+  };
+}
+
+// ─── Color ──────────────────────────────────────────────────────────────────
+
+type Lab = readonly [number, number, number];
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function rgbToLab([r, g, b]: Rgb): Lab {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+  // D65 white
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+  const f = (t: number) =>
+    t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function distanceSq(a: Lab, b: Lab): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function toHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b]
+    .map((c) => Math.round(c).toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+// ─── Palette ────────────────────────────────────────────────────────────────
+
+interface RegionColor {
+  readonly rgb: Rgb;
+  readonly lab: Lab;
+  readonly area: number;
+}
+
+/**
+ * Area-weighted k-means over region colors. Seeds are picked farthest-first
+ * from the largest region, so results are deterministic, and seeding stops
+ * early when every region is close to a seed. Returns the
+ * cluster of every region and each cluster's mean color, with clusters
+ * ordered by total area, largest first.
+ */
+function buildPalette(
+  colors: readonly RegionColor[],
+  size: number,
+): { assignment: number[]; palette: Rgb[] } {
+  const k = Math.min(size, colors.length);
+  const largest = colors.reduce(
+    (best, color, i) => (color.area > colors[best].area ? i : best),
+    0,
+  );
+  const centres: Lab[] = [colors[largest].lab];
+  while (centres.length < k) {
+    let farthest = 0;
+    let farthestDistance = -1;
+    colors.forEach((color, i) => {
+      const d = Math.min(...centres.map((c) => distanceSq(color.lab, c)));
+      if (d > farthestDistance) {
+        farthestDistance = d;
+        farthest = i;
+      }
+    });
+    if (farthestDistance < MIN_COLOR_DIFFERENCE ** 2) break;
+    centres.push(colors[farthest].lab);
+  }
+
+  const assignment = new Array<number>(colors.length).fill(0);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    let changed = false;
+    colors.forEach((color, i) => {
+      let best = 0;
+      for (let c = 1; c < centres.length; c++) {
+        if (distanceSq(color.lab, centres[c]) < distanceSq(color.lab, centres[best])) {
+          best = c;
+        }
+      }
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    });
+    if (!changed && iteration > 0) break;
+    for (let c = 0; c < centres.length; c++) {
+      let weight = 0;
+      const sum = [0, 0, 0];
+      colors.forEach((color, i) => {
+        if (assignment[i] !== c) return;
+        weight += color.area;
+        for (let j = 0; j < 3; j++) sum[j] += color.lab[j] * color.area;
+      });
+      if (weight > 0) centres[c] = [sum[0] / weight, sum[1] / weight, sum[2] / weight];
+    }
+  }
+
+  // Mean sRGB color and total area per cluster; empty clusters are dropped
+  const clusters = centres.map(() => ({ area: 0, sum: [0, 0, 0] }));
+  colors.forEach((color, i) => {
+    const cluster = clusters[assignment[i]];
+    cluster.area += color.area;
+    for (let j = 0; j < 3; j++) cluster.sum[j] += color.rgb[j] * color.area;
+  });
+  const order = clusters
+    .map((cluster, c) => ({ ...cluster, c }))
+    .filter((cluster) => cluster.area > 0)
+    .sort((a, b) => b.area - a.area);
+  const renumber = new Map(order.map((cluster, n) => [cluster.c, n]));
+
+  return {
+    assignment: assignment.map((c) => renumber.get(c)!),
+    palette: order.map(
+      ({ area, sum }) => [sum[0] / area, sum[1] / area, sum[2] / area] as Rgb,
+    ),
+  };
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Numbers the regions of binarized line art (first channel is used; values
+ * below 128 are ink) with colors sampled from `photo`, which is stretched
+ * to the line art's size. Returns a single-channel image with the numbers
+ * drawn in and the legend.
+ */
+export async function renderColorByNumber(
+  lineArt: RawImage,
+  photo: Buffer,
+  options: ColorByNumberOptions,
+): Promise<{ image: RawImage; report: ColorByNumberReport }> {
+  const { width, height } = lineArt;
+  const ink = toInkMask(lineArt);
+  const { labels, areas } = labelRegions(ink, width);
+
+  const regionColors = averageRegionColors(
+    labels,
+    areas,
+    await samplePhoto(photo, width, height),
+  );
+
+  // Centroid and greatest depth per region
+  const centroids = new Float64Array(areas.length * 2);
+  const paper = new Uint8Array(ink.length);
+  for (let i = 0; i < ink.length; i++) paper[i] = ink[i] ? 0 : 1;
+  const depth = distanceToPaper(paper, width, height);
+  const maxDepth = new Float32Array(areas.length);
+  for (let i = 0; i < labels.length; i++) {
+    const label = labels[i];
+    if (!label) continue;
+    const x = i % width;
+    centroids[label * 2] += x / areas[label];
+    centroids[label * 2 + 1] += (i - x) / width / areas[label];
+    maxDepth[label] = Math.max(maxDepth[label], depth[i]);
+  }
+
+  // Label position: of the points nearly as deep as the deepest, the one
+  // nearest the centroid, so long regions are labelled in their middle
+  const anchors = new Int32Array(areas.length).fill(-1);
+  const anchorDistance = new Float64Array(areas.length).fill(Infinity);
+  for (let i = 0; i < labels.length; i++) {
+    const label = labels[i];
+    if (!label || depth[i] < LABEL_DEPTH_SHARE * maxDepth[label]) continue;
+    const x = i % width;
+    const d = Math.hypot(
+      x - centroids[label * 2],
+      (i - x) / width - centroids[label * 2 + 1],
+    );
+    if (d < anchorDistance[label]) {
+      anchorDistance[label] = d;
+      anchors[label] = i;
+    }
+  }
+
+  const regions: number[] = [];
+  const colors: RegionColor[] = [];
+  for (let label = 1; label < areas.length; label++) {
+    const area = areas[label];
+    if (area < MIN_REGION_AREA) continue;
+    const rgb = regionColors[label];
+    regions.push(label);
+    colors.push({ rgb, lab: rgbToLab(rgb), area });
+  }
+
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) data[i] = lineArt.data[i * lineArt.channels];
+
+  if (colors.length === 0) {
+    return {
+      image: { data, width, height, channels: 1 },
+      report: { legend: [], regionsNumbered: 0, regionsUnnumbered: 0 },
+    };
+  }
+
+  const { assignment, palette } = buildPalette(colors, options.paletteSize);
+  const regionCounts = new Array<number>(palette.length).fill(0);
+  let regionsNumbered = 0;
+  regions.forEach((label, r) => {
+    const number = assignment[r] + 1;
+    regionCounts[assignment[r]]++;
+    const text = String(number);
+    const centre = anchors[label];
+    // Fit the label inside the largest circle the region holds
+    const room = 2 * depth[centre] - 2;
+    const aspect = labelWidth(text.length, 1);
+    const size = Math.min(
+      options.maxLabelHeight,
+      room / Math.hypot(1, aspect),
+    );
+    if (size < options.minLabelHeight) return;
+    const x = centre % width;
+    drawLabel(
+      data,
+      width,
+      height,
+      text,
+      x,
+      (centre - x) / width,
+      Math.floor(size),
+      LABEL_LEVEL,
+    );
+    regionsNumbered++;
+  });
+
+  const legend: ColorByNumberLegendEntry[] = palette.map((rgb, n) => ({
+    number: n + 1,
+    color: toHex(rgb),
+    regions: regionCounts[n],
+  }));
+  return {
+    image: { data, width, height, channels: 1 },
+    report: {
+      legend,
+      regionsNumbered,
+      regionsUnnumbered: regions.length - regionsNumbered,
+    },
+  };
+}
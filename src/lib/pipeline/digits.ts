@@ -0,0 +1,104 @@
+// Seven-segment numbers drawn straight into grayscale pixels, so labels
+// need no font. Shared by color-by-number and dot-to-dot pages.
+
+// Segment endpoints in a 1 × 2 box: a top, b upper right, c lower right,
+// d bottom, e lower left, f upper left, g middle.
+const SEGMENTS: Record<string, readonly [number, number, number, number]> = {
+  a: [0, 0, 1, 0],
+  b: [1, 0, 1, 1],
+  c: [1, 1, 1, 2],
+  d: [0, 2, 1, 2],
+  e: [0, 1, 0, 2],
+  f: [0, 0, 0, 1],
+  g: [0, 1, 1, 1],
+};
+const DIGIT_SEGMENTS = [
+  "abcdef",
+  "bc",
+  "abdeg",
+  "abcdg",
+  "bcfg",
+  "acdfg",
+  "acdefg",
+  "abc",
+  "abcdefg",
+  "abcdfg",
+];
+
+// Digit width and gap between digits, as a share of the digit height
+const DIGIT_WIDTH = 0.5;
+const DIGIT_GAP = 0.25;
+
+/**
+ * Width (px) of a `digits`-long number drawn `height` pixels tall.
+ */
+export function labelWidth(digits: number, height: number): number {
+  return digits * DIGIT_WIDTH * height + (digits - 1) * DIGIT_GAP * height;
+}
+
+/**
+ * Darkens a round-capped line from `from` to `to` to at most `level`.
+ */
+export function drawStroke(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  from: readonly [number, number],
+  to: readonly [number, number],
+  radius: number,
+  level: number,
+): void {
+  const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+  const steps = Math.max(1, Math.ceil(length * 2));
+  const reach = Math.ceil(radius);
+  for (let s = 0; s <= steps; s++) {
+    const px = from[0] + ((to[0] - from[0]) * s) / steps;
+    const py = from[1] + ((to[1] - from[1]) * s) / steps;
+    for (let dy = -reach; dy <= reach; dy++) {
+      for (let dx = -reach; dx <= reach; dx++) {
+        if (dx * dx + dy * dy > radius * radius) continue;
+        const x = Math.round(px + dx);
+        const y = Math.round(py + dy);
+        if (x < 0 || y < 0 || x >= width || y >= height) continue;
+        const i = y * width + x;
+        data[i] = Math.min(data[i], level);
+      }
+    }
+  }
+}
+
+/**
+ * Draws `label` (digits only) centred on (cx, cy) with digits `size`
+ * pixels tall, in gray `level`.
+ */
+export function drawLabel(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  label: string,
+  cx: number,
+  cy: number,
+  size: number,
+  level: number,
+): void {
+  const digitWidth = DIGIT_WIDTH * size;
+  const scale = size / 2;
+  const radius = Math.max(0.5, size / 16);
+  let left = cx - labelWidth(label.length, size) / 2;
+  const top = cy - size / 2;
+  for (const char of label) {
+    for (const segment of DIGIT_SEGMENTS[Number(char)]) {
+      const [x0, y0, x1, y1] = SEGMENTS[segment];
+      drawStroke(
+        data,
+        width,
+        height,
+        [left + x0 * digitWidth, top + y0 * scale],
+        [left + x1 * digitWidth, top + y1 * scale],
+        radius,
+        level,
+      );
+    }
+    left += digitWidth + DIGIT_GAP * size;
+  }
+}
@@ -0,0 +1,523 @@
+import type {
+  BoundingBox,
+  ComplexityLevel,
+  DotToDotOptions,
+  DotToDotReport,
+  ImageAnalysis,
+} from "@/lib/pipeline/types";
+import {
+  INK_LEVEL,
+  type RawImage,
+  distanceToPaper,
+  labelRegions,
+  medianStrokeWidth,
+  skeletonize,
+  toInkMask,
+} from "@/lib/pipeline/raster";
+import { drawLabel, drawStroke, labelWidth } from "@/lib/pipeline/digits";
+
+// Dot-to-dot: the main subject's outer outline is replaced by numbered dots
+// spaced evenly along it, and every other line is drawn faintly so the
+// scene is still there to color once the dots are joined.
+//
+// Pipeline: crop to the subject's box → fill everything the outline
+//           encloses → open away stray lines → trace the outer boundary
+//           → sample dots → erase the outline, fade the rest → draw dots
+
+const DOT_COUNTS: Record<ComplexityLevel, number> = {
+  toddler: 10,
+  child: 25,
+  tween: 50,
+  adult: 80,
+};
+
+export const DEFAULT_DOT_TO_DOT_OPTIONS: Omit<DotToDotOptions, "dotCount"> = {
+  dotRadius: 4,
+  labelHeight: 18,
+  fadeLevel: 200,
+};
+
+// Share of each side the subject's box is grown by, since the analyzer's
+// boxes are measured on the photo and are often tight
+const BOX_MARGIN = 0.05;
+
+// Radii (px) the ink is thickened by, in turn, until breaks in the outline
+// are sealed and it encloses an area
+const SEAL_RADII = [0, 2, 4, 8];
+
+// Smallest enclosed area, as a share of the box, taken to be the subject
+const MIN_SUBJECT_SHARE = 0.05;
+
+// Directions clockwise from north, in image space (y grows downward)
+const NX = [0, 1, 1, 1, 0, -1, -1, -1];
+const NY = [-1, -1, 0, 1, 1, 1, 0, -1];
+const WEST = 6;
+
+// Spots tried, in order, when a number would cover another dot or number:
+// turns (degrees) away from the outward normal, first next to the dot and
+// then a label height farther out
+const LABEL_TURNS = [0, 45, -45, 90, -90, 135, -135, 180];
+const LABEL_SPOTS = [0, 1].flatMap((ring) =>
+  LABEL_TURNS.map((turn) => [turn, ring] as const),
+);
+
+type Point = readonly [number, number];
+
+export function resolveDotToDotOptions(
+  complexity: ComplexityLevel,
+  overrides?: Partial<DotToDotOptions>,
+): DotToDotOptions {
+  return {
+    dotCount: DOT_COUNTS[complexity],
+    ...DEFAULT_DOT_TO_DOT_OPTIONS,
+    ...overrides,
+  };
+}
+
+/**
+ * Bounding box of the analysis' largest subject, or undefined when the
+ * photo has none.
+ */
+export function mainSubjectBox(
+  analysis: ImageAnalysis,
+): BoundingBox | undefined {
+  let best: BoundingBox | undefined;
+  for (const { boundingBox } of analysis.subjects) {
+    if (
+      !best ||
+      boundingBox.width * boundingBox.height > best.width * best.height
+    ) {
+      best = boundingBox;
+    }
+  }
+  return best;
+}
+
+// ─── Subject Outline ────────────────────────────────────────────────────────
+
+interface Subject {
+  // Enclosed area in the padded crop: 1 = subject (outline included)
+  readonly mask: Uint8Array;
+  readonly width: number;
+  readonly height: number;
+  // Image position of the padded crop's top-left pixel
+  readonly left: number;
+  readonly top: number;
+  // Width (px) of the outline band along the mask's edge
+  readonly outlineWidth: number;
+}
+
+/**
+ * Finds the area enclosed by the outline of the subject inside `box`
+ * (given as a share of the page). Breaks in the outline are sealed by
+ * thickening the ink, and lines that only pass through are dropped by a
+ * morphological opening; the largest enclosed area that is left wins.
+ */
+function findSubject(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+  box: BoundingBox,
+): Subject | undefined {
+  const x0 = Math.max(0, Math.floor((box.x - BOX_MARGIN * box.width) * width));
+  const y0 = Math.max(
+    0,
+    Math.floor((box.y - BOX_MARGIN * box.height) * height),
+  );
+  const x1 = Math.min(
+    width,
+    Math.ceil((box.x + (1 + BOX_MARGIN) * box.width) * width),
+  );
+  const y1 = Math.min(
+    height,
+    Math.ceil((box.y + (1 + BOX_MARGIN) * box.height) * height),
+  );
+  const boxWidth = x1 - x0;
+  const boxHeight = y1 - y0;
+  if (boxWidth < 3 || boxHeight < 3) return undefined;
+
+  const boxInk = new Uint8Array(boxWidth * boxHeight);
+  for (let y = 0; y < boxHeight; y++) {
+    boxInk.set(
+      ink.subarray((y0 + y) * width + x0, (y0 + y) * width + x1),
+      y * boxWidth,
+    );
+  }
+  const strokeWidth = Math.max(
+    1,
+    medianStrokeWidth(
+      boxInk,
+      skeletonize(boxInk, boxWidth, boxHeight),
+      boxWidth,
+      boxHeight,
+    ),
+  );
+
+  for (const seal of SEAL_RADII) {
+    // Opening radius that removes a lone line but keeps filled areas
+    const open = Math.ceil(strokeWidth / 2) + 1;
+    // Paper padding, wide enough that distances measured from outside the
+    // crop never reach the crop itself
+    const pad = 2 * (seal + open) + 2;
+    const w = boxWidth + 2 * pad;
+    const h = boxHeight + 2 * pad;
+    const cropInk = new Uint8Array(w * h);
+    for (let y = 0; y < boxHeight; y++) {
+      cropInk.set(
+        boxInk.subarray(y * boxWidth, (y + 1) * boxWidth),
+        (y + pad) * w + pad,
+      );
+    }
+
+    // Thicken the ink by `seal` px
+    let sealed = cropInk;
+    if (seal > 0) {
+      const paper = new Uint8Array(cropInk.length);
+      for (let i = 0; i < paper.length; i++) paper[i] = cropInk[i] ? 0 : 1;
+      const toInk = distanceToPaper(paper, w, h);
+      sealed = new Uint8Array(cropInk.length);
+      for (let i = 0; i < sealed.length; i++) {
+        sealed[i] = cropInk[i] || toInk[i] <= seal ? 1 : 0;
+      }
+    }
+
+    // Everything inside the box that the padding's paper cannot reach is
+    // enclosed. Thickening also inks a `seal` wide frame along the crop's
+    // edge, so the paper just inside that frame is where the outside starts.
+    const { labels } = labelRegions(sealed, w);
+    const outside = new Set<number>();
+    for (let x = seal; x < w - seal; x++) {
+      outside.add(labels[seal * w + x]).add(labels[(h - seal - 1) * w + x]);
+    }
+    for (let y = seal; y < h - seal; y++) {
+      outside.add(labels[y * w + seal]).add(labels[y * w + w - seal - 1]);
+    }
+    outside.delete(0);
+    const enclosed = new Uint8Array(sealed.length);
+    for (let y = pad; y < pad + boxHeight; y++) {
+      for (let x = pad; x < pad + boxWidth; x++) {
+        enclosed[y * w + x] = outside.has(labels[y * w + x]) ? 0 : 1;
+      }
+    }
+
+    // Erode away the thickening and then the opening radius, and grow back
+    // by the opening radius only
+    const depth = distanceToPaper(enclosed, w, h);
+    const notCore = new Uint8Array(enclosed.length);
+    for (let i = 0; i < notCore.length; i++) {
+      notCore[i] = depth[i] > seal + open ? 0 : 1;
+    }
+    const toCore = distanceToPaper(notCore, w, h);
+    // Non-subject pixels, so the subject areas are labelled as "paper"
+    const opened = new Uint8Array(enclosed.length);
+    for (let i = 0; i < opened.length; i++) {
+      opened[i] = enclosed[i] && toCore[i] <= open ? 0 : 1;
+    }
+
+    const areas = labelRegions(opened, w);
+    let best = 0;
+    for (let label = 1; label < areas.areas.length; label++) {
+      if (areas.areas[label] > areas.areas[best]) best = label;
+    }
+    if (best === 0) continue;
+    if (areas.areas[best] < MIN_SUBJECT_SHARE * boxWidth * boxHeight) continue;
+
+    const mask = new Uint8Array(opened.length);
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = areas.labels[i] === best ? 1 : 0;
+    }
+    return {
+      mask,
+      width: w,
+      height: h,
+      left: x0 - pad,
+      top: y0 - pad,
+      // Chamfer distances run short along slanted edges, so leave slack
+      outlineWidth: Math.ceil(1.5 * strokeWidth) + 1,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Moore-neighbour tracing of the outer boundary of the shape containing
+ * the first set pixel of `mask`, clockwise from its top-left pixel.
+ */
+function traceBoundary(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+): Point[] {
+  const start = mask.indexOf(1);
+  if (start < 0) return [];
+  const isSet = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+  const points: Point[] = [];
+  let x = start % width;
+  let y = (start - x) / width;
+  // Direction of the last paper pixel checked; west of the first pixel is
+  // paper since it is the first in raster order
+  let backtrack = WEST;
+  let firstMove = -1;
+  for (let step = 0; step < 4 * mask.length; step++) {
+    let move = -1;
+    for (let k = 1; k <= 8; k++) {
+      const d = (backtrack + k) % 8;
+      if (isSet(x + NX[d], y + NY[d])) {
+        move = d;
+        break;
+      }
+    }
+    if (move < 0) return [[x, y]];
+    if (y * width + x === start) {
+      if (firstMove === move) break;
+      if (firstMove < 0) firstMove = move;
+    }
+
+    points.push([x, y]);
+    const checked = (move + 7) % 8;
+    const nx = x + NX[move];
+    const ny = y + NY[move];
+    const dx = x + NX[checked] - nx;
+    const dy = y + NY[checked] - ny;
+    backtrack = NX.findIndex((ex, k) => ex === dx && NY[k] === dy);
+    x = nx;
+    y = ny;
+  }
+  return points;
+}
+
+/**
+ * `count` points spaced evenly along the closed polyline `points`, starting
+ * at its first point. Returns the points, the index of the polyline vertex
+ * each one follows, and the polyline's length.
+ */
+function sampleEvenly(
+  points: Point[],
+  count: number,
+): { samples: Point[]; vertices: number[]; length: number } {
+  const cumulative = [0];
+  for (let i = 1; i <= points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i % points.length];
+    cumulative.push(cumulative[i - 1] + Math.hypot(b[0] - a[0], b[1] - a[1]));
+  }
+  const length = cumulative[points.length];
+
+  const samples: Point[] = [];
+  const vertices: number[] = [];
+  let segment = 0;
+  for (let k = 0; k < count; k++) {
+    const at = (k * length) / count;
+    while (cumulative[segment + 1] < at) segment++;
+    const a = points[segment];
+    const b = points[(segment + 1) % points.length];
+    const span = cumulative[segment + 1] - cumulative[segment];
+    const t = span > 0 ? (at - cumulative[segment]) / span : 0;
+    samples.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+    vertices.push(segment);
+  }
+  return { samples, vertices, length };
+}
+
+// ─── Labels ─────────────────────────────────────────────────────────────────
+
+interface Box {
+  readonly left: number;
+  readonly top: number;
+  readonly right: number;
+  readonly bottom: number;
+}
+
+/**
+ * Box for the number of dot `index`: beside the dot in the `normal`
+ * direction, or turned around the dot in 45° steps, then a label height
+ * farther out, when that spot would cover another dot or an already
+ * placed number. Falls back to the normal direction when every spot is
+ * taken.
+ */
+function placeLabel(
+  dots: readonly Point[],
+  index: number,
+  normal: Point,
+  labelW: number,
+  labelH: number,
+  dotRadius: number,
+  placed: readonly Box[],
+  width: number,
+  height: number,
+): Box {
+  const [cx, cy] = dots[index];
+  const gap = labelH / 4;
+  let first: Box | undefined;
+  for (const [turn, ring] of LABEL_SPOTS) {
+    const angle = (turn * Math.PI) / 180;
+    const nx = normal[0] * Math.cos(angle) - normal[1] * Math.sin(angle);
+    const ny = normal[0] * Math.sin(angle) + normal[1] * Math.cos(angle);
+    const offset =
+      dotRadius +
+      gap +
+      ring * labelH +
+      (Math.abs(nx) * labelW + Math.abs(ny) * labelH) / 2;
+    const x = Math.min(
+      width - labelW / 2 - 1,
+      Math.max(labelW / 2, cx + nx * offset),
+    );
+    const y = Math.min(
+      height - labelH / 2 - 1,
+      Math.max(labelH / 2, cy + ny * offset),
+    );
+    const box: Box = {
+      left: x - labelW / 2,
+      top: y - labelH / 2,
+      right: x + labelW / 2,
+      bottom: y + labelH / 2,
+    };
+    first ??= box;
+
+    const clear =
+      placed.every(
+        (other) =>
+          box.right + gap < other.left ||
+          other.right + gap < box.left ||
+          box.bottom + gap < other.top ||
+          other.bottom + gap < box.top,
+      ) &&
+      dots.every(
+        ([dx, dy]) =>
+          dx < box.left - dotRadius ||
+          dx > box.right + dotRadius ||
+          dy < box.top - dotRadius ||
+          dy > box.bottom + dotRadius,
+      );
+    if (clear) return box;
+  }
+  return first!;
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Turns binarized line art (first channel is used; values below 128 are
+ * ink) into a dot-to-dot page: the outline of the subject inside
+ * `subjectBox` (a share of the page; omitted = the whole page) becomes
+ * numbered black dots, and the remaining lines are drawn at `fadeLevel`.
+ * Dot and label sizes are in output pixels, `outputScale` output pixels
+ * per working pixel. When no closed outline is found the line art is
+ * returned unchanged with no dots.
+ */
+export function renderDotToDot(
+  lineArt: RawImage,
+  subjectBox: BoundingBox | undefined,
+  options: DotToDotOptions,
+  outputScale = 1,
+): { image: RawImage; report: DotToDotReport } {
+  const { width, height } = lineArt;
+  const ink = toInkMask(lineArt);
+  const subject = findSubject(
+    ink,
+    width,
+    height,
+    subjectBox ?? { x: 0, y: 0, width: 1, height: 1 },
+  );
+  const outline = subject
+    ? traceBoundary(subject.mask, subject.width, subject.height)
+    : [];
+
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = lineArt.data[i * lineArt.channels];
+  }
+  if (!subject || outline.length < options.dotCount) {
+    return {
+      image: { data, width, height, channels: 1 },
+      report: { dots: 0, outlineLength: 0 },
+    };
+  }
+
+  // Erase the outline band, then fade whatever ink is left
+  const depth = distanceToPaper(subject.mask, subject.width, subject.height);
+  for (let y = 0; y < subject.height; y++) {
+    const iy = y + subject.top;
+    if (iy < 0 || iy >= height) continue;
+    for (let x = 0; x < subject.width; x++) {
+      const ix = x + subject.left;
+      if (ix < 0 || ix >= width) continue;
+      const d = depth[y * subject.width + x];
+      if (d > 0 && d <= subject.outlineWidth) data[iy * width + ix] = 255;
+    }
+  }
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] < INK_LEVEL) data[i] = options.fadeLevel;
+  }
+
+  const { samples, vertices, length } = sampleEvenly(
+    outline,
+    options.dotCount,
+  );
+  const dotRadius = options.dotRadius / outputScale;
+  const labelHeight = Math.round(options.labelHeight / outputScale);
+  const dots = samples.map(
+    ([px, py]) => [px + subject.left, py + subject.top] as const,
+  );
+  for (const dot of dots) {
+    drawStroke(data, width, height, dot, dot, dotRadius, 0);
+  }
+
+  // Points this far apart along the outline give its local direction
+  const reach = Math.max(2, Math.round(outline.length / options.dotCount / 4));
+  const placed: Box[] = [];
+  samples.forEach(([px, py], k) => {
+    // Put the number beside the dot, on the outside of the outline
+    const n = outline.length;
+    const before = outline[(vertices[k] - reach + n) % n];
+    const after = outline[(vertices[k] + reach) % n];
+    const tx = after[0] - before[0];
+    const ty = after[1] - before[1];
+    const tangent = Math.hypot(tx, ty) || 1;
+    let nx = ty / tangent;
+    let ny = -tx / tangent;
+    const probeX = Math.round(px + nx * 3);
+    const probeY = Math.round(py + ny * 3);
+    if (
+      probeX >= 0 &&
+      probeY >= 0 &&
+      probeX < subject.width &&
+      probeY < subject.height &&
+      subject.mask[probeY * subject.width + probeX]
+    ) {
+      nx = -nx;
+      ny = -ny;
+    }
+
+    const text = String(k + 1);
+    const box = placeLabel(
+      dots,
+      k,
+      [nx, ny],
+      labelWidth(text.length, labelHeight),
+      labelHeight,
+      dotRadius,
+      placed,
+      width,
+      height,
+    );
+    placed.push(box);
+    drawLabel(
+      data,
+      width,
+      height,
+      text,
+      (box.left + box.right) / 2,
+      (box.top + box.bottom) / 2,
+      labelHeight,
+      0,
+    );
+  });
+
+  return {
+    image: { data, width, height, channels: 1 },
+    report: { dots: samples.length, outlineLength: Math.round(length) },
+  };
+}
@@ -1,14 +1,22 @@
-import { fal } from "@fal-ai/client";
+import { fal, type QueueStatus } from "@fal-ai/client";
 import {
   type AnalysisResult,
   AnalysisResultSchema,
   type EditImageResponse,
   EditImageResponseSchema,
+  type GenerationProvider,
+  type ImageEditCallOptions,
+  type ImageGenerationCallOptions,
   type ImageGenerationResponse,
   ImageGenerationResponseSchema,
   PipelineError,
+  type PipelineEventListener,
+  type PipelineStage,
+  type ProviderCallOptions,
+  type ProviderResponse,
   VisionResponseSchema,
 } from "@/lib/pipeline/types";
+import { withRetry } from "@/lib/pipeline/retry";
 
 // fal.ai auto-reads FAL_KEY from process.env — no explicit config needed.
 // This module must only be imported in server-side code.
@@ -16,6 +24,32 @@ import {
 const VISION_MODEL = "fal-ai/llavav15-13b" as const;
 const IMAGE_GENERATION_MODEL = "fal-ai/fast-sdxl" as const;
 
+// ─── Queue Updates ──────────────────────────────────────────────────────────
+
+/**
+ * Builds an onQueueUpdate handler that forwards queue position and new log
+ * lines as pipeline events. fal resends the full log list on every update,
+ * so only lines past the last seen index are emitted. Create one per request.
+ */
+function createQueueListener(
+  stage: PipelineStage,
+  onEvent: PipelineEventListener | undefined,
+): ((status: QueueStatus) => void) | undefined {
+  if (!onEvent) return undefined;
+  let seenLogs = 0;
+  return (status) => {
+    if (status.status === "IN_QUEUE") {
+      onEvent({ type: "queue", stage, position: status.queue_position });
+      return;
+    }
+    const logs = status.logs ?? [];
+    for (const log of logs.slice(seenLogs)) {
+      onEvent({ type: "log", stage, message: log.message });
+    }
+    seenLogs = Math.max(seenLogs, logs.length);
+  };
+}
+
 // ─── Vision Analysis ────────────────────────────────────────────────────────
 
 interface VisionCallOptions {
@@ -31,16 +65,29 @@ interface VisionCallOptions {
 export async function analyzeImageWithVision(
   imageUrl: string,
   prompt: string,
+  options: ProviderCallOptions = {},
 ): Promise<AnalysisResult> {
-  const result = await fal.subscribe(VISION_MODEL, {
-    input: {
-      image_url: imageUrl,
-      prompt,
-      max_tokens: 1024,
-      temperature: 0.1,
+  const { value: result } = await withRetry(
+    (signal) =>
+      fal.subscribe(VISION_MODEL, {
+        input: {
+          image_url: imageUrl,
+          prompt,
+          max_tokens: 1024,
+          temperature: 0.1,
+        },
+        logs: true,
+        onQueueUpdate: createQueueListener("analysis", options.onEvent),
+        abortSignal: signal,
+      }),
+    {
+      label: `fal ${VISION_MODEL}`,
+      stage: "analysis",
+      policy: options.retry,
+      signal: options.signal,
+      onEvent: options.onEvent,
     },
-    logs: true,
-  });
+  );
 
   const visionParsed = VisionResponseSchema.safeParse(result.data);
   if (!visionParsed.success) {
@@ -85,24 +132,9 @@ export async function analyzeImageWithVision(
 
 // ─── Image Generation ───────────────────────────────────────────────────────
 
-interface ImageGenerationCallOptions {
-  readonly prompt: string;
-  readonly negativePrompt: string;
-  readonly imageSize?:
-    | "square_hd"
-    | "square"
-    | "portrait_4_3"
-    | "portrait_16_9"
-    | "landscape_4_3"
-    | "landscape_16_9";
-  readonly numInferenceSteps?: number;
-  readonly guidanceScale?: number;
-  readonly seed?: number;
-}
-
 export async function callImageGeneration(
   options: ImageGenerationCallOptions,
-): Promise<ImageGenerationResponse> {
+): Promise<ProviderResponse<ImageGenerationResponse>> {
   const {
     prompt,
     negativePrompt,
@@ -110,22 +142,37 @@ export async function callImageGeneration(
     numInferenceSteps = 25,
     guidanceScale = 7.5,
     seed,
+    retry,
+    signal,
+    onEvent,
   } = options;
 
-  const result = await fal.subscribe(IMAGE_GENERATION_MODEL, {
-    input: {
-      prompt,
-      negative_prompt: negativePrompt,
-      image_size: imageSize,
-      num_inference_steps: numInferenceSteps,
-      guidance_scale: guidanceScale,
-      num_images: 1,
-      format: "png",
-      enable_safety_checker: true,
-      ...(seed !== undefined ? { seed } : {}),
+  const { value: result, attempts } = await withRetry(
+    (signal) =>
+      fal.subscribe(IMAGE_GENERATION_MODEL, {
+        input: {
+          prompt,
+          negative_prompt: negativePrompt,
+          image_size: imageSize,
+          num_inference_steps: numInferenceSteps,
+          guidance_scale: guidanceScale,
+          num_images: 1,
+          format: "png",
+          enable_safety_checker: true,
+          ...(seed !== undefined ? { seed } : {}),
+        },
+        logs: true,
+        onQueueUpdate: createQueueListener("generation", onEvent),
+        abortSignal: signal,
+      }),
+    {
+      label: `fal ${IMAGE_GENERATION_MODEL}`,
+      stage: "generation",
+      policy: retry,
+      signal,
+      onEvent,
     },
-    logs: true,
-  });
+  );
 
   const parsed = ImageGenerationResponseSchema.safeParse(result.data);
   if (!parsed.success) {
@@ -133,42 +180,52 @@ export async function callImageGeneration(
       `Image generation response validation failed: ${parsed.error.message}`,
       "generation",
       parsed.error,
+      { attempts },
     );
   }
 
-  return parsed.data;
+  return { data: parsed.data, attempts };
 }
 
 // ─── Image Edit (image-to-image endpoints) ──────────────────────────────────
 
-interface ImageEditCallOptions {
-  readonly model: string;
-  readonly prompt: string;
-  readonly imageUrls: string[];
-  readonly numImages?: number;
-  readonly outputFormat?: "jpeg" | "png" | "webp";
-}
-
 export async function callImageEdit(
   options: ImageEditCallOptions,
-): Promise<EditImageResponse> {
+): Promise<ProviderResponse<EditImageResponse>> {
   const {
     model,
     prompt,
     imageUrls,
     numImages = 1,
     outputFormat = "png",
+    seed,
+    retry,
+    signal,
+    onEvent,
   } = options;
 
-  const result = await fal.subscribe(model, {
-    input: {
-      prompt,
-      image_urls: imageUrls,
-      num_images: numImages,
-      output_format: outputFormat,
+  const { value: result, attempts } = await withRetry(
+    (signal) =>
+      fal.subscribe(model, {
+        input: {
+          prompt,
+          image_urls: imageUrls,
+          num_images: numImages,
+          output_format: outputFormat,
+          ...(seed !== undefined ? { seed } : {}),
+        },
+        logs: true,
+        onQueueUpdate: createQueueListener("generation", onEvent),
+        abortSignal: signal,
+      }),
+    {
+      label: `fal ${model}`,
+      stage: "generation",
+      policy: retry,
+      signal,
+      onEvent,
     },
-    logs: true,
-  });
+  );
 
   const parsed = EditImageResponseSchema.safeParse(result.data);
   if (!parsed.success) {
@@ -176,10 +233,11 @@ export async function callImageEdit(
       `Image edit response validation failed: ${parsed.error.message}`,
       "generation",
       parsed.error,
+      { attempts },
     );
   }
 
-  return parsed.data;
+  return { data: parsed.data, attempts };
 }
 
 // ─── File Upload ────────────────────────────────────────────────────────────
@@ -188,6 +246,25 @@ export async function callImageEdit(
  * Uploads a File or Blob to fal.ai temporary storage.
  * Returns the publicly accessible URL.
  */
-export async function uploadToFalStorage(file: File | Blob): Promise<string> {
-  return fal.storage.upload(file);
+export async function uploadToFalStorage(
+  file: File | Blob,
+  options: ProviderCallOptions = {},
+): Promise<string> {
+  const { value: url } = await withRetry(() => fal.storage.upload(file), {
+    label: "fal storage upload",
+    stage: "analysis",
+    policy: options.retry,
+    signal: options.signal,
+    onEvent: options.onEvent,
+  });
+  return url;
 }
+
+// ─── Provider Adapter ───────────────────────────────────────────────────────
+
+export const falProvider: GenerationProvider = {
+  name: "fal",
+  generate: callImageGeneration,
+  edit: callImageEdit,
+  upload: uploadToFalStorage,
+};
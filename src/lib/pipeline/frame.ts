@@ -0,0 +1,353 @@
+import { readFile, readdir } from "fs/promises";
+import { join } from "path";
+import sharp from "sharp";
+import {
+  type ComplexityLevel,
+  type FrameOptions,
+  FrameStyle,
+  PipelineError,
+} from "@/lib/pipeline/types";
+import { getStrokeWidthTarget } from "@/lib/prompts/generation";
+import { formatNumber } from "@/lib/pipeline/image-source";
+import type { RawImage } from "@/lib/pipeline/raster";
+
+// Decorative frames composited around a finished page. The artwork is
+// scaled down to fit inside the frame, so nothing is covered.
+//
+// Built-in frames are drawn as SVG at the page size. Custom frames are SVG
+// files in FRAME_TEMPLATES_DIR (default: templates/frames), stretched over
+// the page inside the margin. A custom frame marks where the artwork goes
+// with a `data-content="x y width height"` attribute on its root element,
+// in viewBox units; without one, a band of 10% of the shorter side is
+// left for the frame. This module must only be imported in server-side
+// code.
+
+export const DEFAULT_FRAME_TEMPLATES_DIR = join(
+  process.cwd(),
+  "templates",
+  "frames",
+);
+
+const FRAME_STYLES: Record<ComplexityLevel, FrameStyle> = {
+  toddler: "stars",
+  child: "scalloped",
+  tween: "rounded",
+  adult: "rule",
+};
+
+export const DEFAULT_FRAME_OPTIONS: Omit<
+  FrameOptions,
+  "template" | "lineWidth"
+> = {
+  margin: 0.03,
+  padding: 0.02,
+};
+
+// Sizes as a share of the page's shorter side: corner radius of "rounded",
+// corner ornaments of "stars" and "hearts", and the frame band assumed for
+// custom templates without data-content
+const CORNER_RADIUS = 0.05;
+const ORNAMENT_SIZE = 0.08;
+const CUSTOM_FRAME_BAND = 0.1;
+
+interface Rect {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+export function resolveFrameOptions(
+  complexity: ComplexityLevel,
+  overrides?: Partial<FrameOptions>,
+): FrameOptions {
+  const { min, max } = getStrokeWidthTarget(complexity);
+  return {
+    template: FRAME_STYLES[complexity],
+    lineWidth: (min + max) / 2,
+    ...DEFAULT_FRAME_OPTIONS,
+    ...overrides,
+  };
+}
+
+/**
+ * Directory custom frame templates are read from: FRAME_TEMPLATES_DIR, or
+ * templates/frames.
+ */
+export function getFrameTemplatesDir(): string {
+  return process.env.FRAME_TEMPLATES_DIR?.trim() || DEFAULT_FRAME_TEMPLATES_DIR;
+}
+
+/**
+ * Names of every frame template: the built-in styles, then the custom
+ * templates found in the templates directory.
+ */
+export async function listFrameTemplates(): Promise<string[]> {
+  let custom: string[] = [];
+  try {
+    custom = (await readdir(getFrameTemplatesDir()))
+      .filter((file) => file.endsWith(".svg"))
+      .map((file) => file.slice(0, -".svg".length))
+      .filter(
+        (name) =>
+          /^[\w-]+$/.test(name) && !FrameStyle.safeParse(name).success,
+      )
+      .sort();
+  } catch {
+    // No templates directory: built-in frames only
+  }
+  return [...FrameStyle.options, ...custom];
+}
+
+function inset(rect: Rect, by: number): Rect {
+  return {
+    x: rect.x + by,
+    y: rect.y + by,
+    width: rect.width - 2 * by,
+    height: rect.height - 2 * by,
+  };
+}
+
+// ─── Built-in Frames ────────────────────────────────────────────────────────
+
+function starPath(cx: number, cy: number, radius: number): string {
+  const points: string[] = [];
+  for (let k = 0; k < 10; k++) {
+    const angle = -Math.PI / 2 + (k * Math.PI) / 5;
+    const r = k % 2 === 0 ? radius : radius * 0.45;
+    points.push(
+      `${formatNumber(cx + r * Math.cos(angle))} ${formatNumber(cy + r * Math.sin(angle))}`,
+    );
+  }
+  return `M${points.join("L")}Z`;
+}
+
+function heartPath(cx: number, cy: number, radius: number): string {
+  // Unit heart in [-1, 1], point down
+  const p = (x: number, y: number) =>
+    `${formatNumber(cx + x * radius)} ${formatNumber(cy + y * radius)}`;
+  return `M${p(0, 0.9)}C${p(-1.6, -0.1)} ${p(-0.6, -1.1)} ${p(0, -0.35)}C${p(0.6, -1.1)} ${p(1.6, -0.1)} ${p(0, 0.9)}Z`;
+}
+
+/**
+ * Scallops along a side: semicircles bulging outward when the rectangle
+ * is walked clockwise.
+ */
+function scallops(length: number, dx: number, dy: number, size: number): string {
+  const count = Math.max(3, Math.round(length / size));
+  const step = length / count;
+  const radius = formatNumber(step / 2);
+  const arc = `a${radius} ${radius} 0 0 1 ${formatNumber(dx * step)} ${formatNumber(dy * step)}`;
+  return arc.repeat(count);
+}
+
+/**
+ * SVG markup of a built-in frame drawn inside `frame`, and how deep (px)
+ * the frame reaches into it.
+ */
+function drawBuiltInFrame(
+  style: FrameStyle,
+  frame: Rect,
+  lineWidth: number,
+  shortSide: number,
+): { markup: string; band: number } {
+  const line = inset(frame, lineWidth / 2);
+  const rect = (r: Rect, radius = 0) =>
+    `<rect x="${formatNumber(r.x)}" y="${formatNumber(r.y)}" width="${formatNumber(r.width)}" height="${formatNumber(r.height)}" rx="${formatNumber(radius)}"/>`;
+
+  switch (style) {
+    case "rule":
+      return { markup: rect(line), band: lineWidth };
+    case "rounded": {
+      const radius = CORNER_RADIUS * shortSide;
+      // Keep the artwork's corners clear of the curve
+      return {
+        markup: rect(line, radius),
+        band: lineWidth + radius * (1 - Math.SQRT1_2),
+      };
+    }
+    case "scalloped": {
+      const size = Math.max(4 * lineWidth, 0.03 * shortSide);
+      const base = inset(line, size / 2);
+      const d =
+        `M${formatNumber(base.x)} ${formatNumber(base.y)}` +
+        scallops(base.width, 1, 0, size) +
+        scallops(base.height, 0, 1, size) +
+        scallops(base.width, -1, 0, size) +
+        scallops(base.height, 0, -1, size) +
+        "Z";
+      return { markup: `<path d="${d}"/>`, band: size / 2 + lineWidth };
+    }
+    case "stars":
+    case "hearts": {
+      // Double rule with an ornament over each corner, filled white so the
+      // rules stop at its outline
+      const size = ORNAMENT_SIZE * shortSide;
+      const radius = (size - lineWidth) / 2;
+      const centres = [
+        [frame.x + size / 2, frame.y + size / 2],
+        [frame.x + frame.width - size / 2, frame.y + size / 2],
+        [frame.x + frame.width - size / 2, frame.y + frame.height - size / 2],
+        [frame.x + size / 2, frame.y + frame.height - size / 2],
+      ];
+      const ornament = style === "stars" ? starPath : heartPath;
+      const ornaments = centres
+        .map(([x, y]) => `<path fill="#fff" d="${ornament(x, y, radius)}"/>`)
+        .join("");
+      return {
+        markup: rect(line) + rect(inset(frame, size / 2)) + ornaments,
+        band: size,
+      };
+    }
+  }
+}
+
+// ─── Custom Frames ──────────────────────────────────────────────────────────
+
+/**
+ * Reads a custom template, rasterized to fill `frame`, and where in it the
+ * artwork goes.
+ */
+async function loadCustomFrame(
+  name: string,
+  frame: Rect,
+  shortSide: number,
+): Promise<{ overlay: Buffer; content: Rect }> {
+  const dir = getFrameTemplatesDir();
+  let svg: Buffer;
+  try {
+    svg = await readFile(join(dir, `${name}.svg`));
+  } catch (error) {
+    throw new PipelineError(
+      `Unknown frame template "${name}": not a built-in frame and no ${name}.svg in ${dir}`,
+      "post-processing",
+      error,
+    );
+  }
+
+  // Rasterize at the density that gives the frame's size, not the SVG's
+  const { width: intrinsicWidth = frame.width } = await sharp(svg).metadata();
+  const density = Math.min(2400, (72 * frame.width) / intrinsicWidth);
+  const overlay = await sharp(svg, { density })
+    .resize(Math.round(frame.width), Math.round(frame.height), { fit: "fill" })
+    .png()
+    .toBuffer();
+
+  const text = svg.toString("utf-8");
+  const root = text.match(/<svg\b[^>]*>/)?.[0] ?? "";
+  const numbers = (attribute: string) =>
+    root
+      .match(new RegExp(`\\b${attribute}="([^"]+)"`))?.[1]
+      .trim()
+      .split(/[\s,]+/)
+      .map(Number);
+  const marked = numbers("data-content");
+  const viewBox = numbers("viewBox") ?? [
+    0,
+    0,
+    ...(numbers("width") ?? []),
+    ...(numbers("height") ?? []),
+  ];
+  if (
+    marked?.length === 4 &&
+    viewBox.length === 4 &&
+    [...marked, ...viewBox].every(Number.isFinite) &&
+    viewBox[2] > 0 &&
+    viewBox[3] > 0
+  ) {
+    const sx = frame.width / viewBox[2];
+    const sy = frame.height / viewBox[3];
+    return {
+      overlay,
+      content: {
+        x: frame.x + (marked[0] - viewBox[0]) * sx,
+        y: frame.y + (marked[1] - viewBox[1]) * sy,
+        width: marked[2] * sx,
+        height: marked[3] * sy,
+      },
+    };
+  }
+  return { overlay, content: inset(frame, CUSTOM_FRAME_BAND * shortSide) };
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Composites a frame around a raw page: the page keeps its size, the frame
+ * sits `margin` in from the edge, and the artwork is scaled to fit
+ * `padding` inside the frame. `outputScale` is the output size over the
+ * working size, so built-in line widths are met after the final resize.
+ * Grayscale pages come back single-channel, color pages (the preview) as
+ * RGB.
+ */
+export async function applyFrame(
+  image: RawImage,
+  options: FrameOptions,
+  outputScale = 1,
+): Promise<RawImage> {
+  const { width, height } = image;
+  const shortSide = Math.min(width, height);
+  const frame = inset(
+    { x: 0, y: 0, width, height },
+    options.margin * shortSide,
+  );
+
+  const style = FrameStyle.safeParse(options.template);
+  let overlay: Buffer;
+  let overlayPosition = { left: 0, top: 0 };
+  let content: Rect;
+  if (style.success) {
+    const lineWidth = Math.max(1, options.lineWidth / outputScale);
+    const { markup, band } = drawBuiltInFrame(
+      style.data,
+      frame,
+      lineWidth,
+      shortSide,
+    );
+    overlay = Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><g fill="none" stroke="#000" stroke-width="${formatNumber(lineWidth)}" stroke-linejoin="round">${markup}</g></svg>`,
+    );
+    content = inset(frame, band);
+  } else {
+    const custom = await loadCustomFrame(options.template, frame, shortSide);
+    overlay = custom.overlay;
+    overlayPosition = { left: Math.round(frame.x), top: Math.round(frame.y) };
+    content = custom.content;
+  }
+
+  const area = inset(content, options.padding * shortSide);
+  if (area.width < 1 || area.height < 1) {
+    throw new PipelineError(
+      `Frame "${options.template}" leaves no room for the artwork; reduce its margin or padding`,
+      "post-processing",
+    );
+  }
+
+  const { data: artwork, info } = await sharp(image.data, {
+    raw: {
+      width,
+      height,
+      channels: image.channels as 1 | 2 | 3 | 4,
+    },
+  })
+    .resize(Math.floor(area.width), Math.floor(area.height), { fit: "inside" })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  const framed = sharp({
+    create: { width, height, channels: 3, background: "#fff" },
+  }).composite([
+    {
+      input: artwork,
+      left: Math.round(area.x + (area.width - info.width) / 2),
+      top: Math.round(area.y + (area.height - info.height) / 2),
+    },
+    { input: overlay, ...overlayPosition },
+  ]);
+  const { data, info: output } = await (
+    image.channels >= 3 ? framed.removeAlpha() : framed.toColourspace("b-w")
+  )
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width, height, channels: output.channels };
+}
@@ -0,0 +1,29 @@
+// Reading and formatting helpers shared across the pipeline modules.
+
+/**
+ * Bytes of an image given as a Buffer or URL. Node's fetch resolves data:
+ * URLs locally, so those never touch the network (local provider, fixture
+ * replay).
+ */
+export async function loadImage(
+  image: Buffer | string,
+  signal?: AbortSignal,
+): Promise<Buffer> {
+  if (typeof image !== "string") return image;
+  const response = await fetch(image, { signal });
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch image: ${response.status} ${response.statusText}`,
+    );
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Shortest decimal form of `n` rounded to `decimals` places, for SVG and
+ * PDF drawing operators.
+ */
+export function formatNumber(n: number, decimals = 2): string {
+  const scale = 10 ** decimals;
+  return String(Math.round(n * scale) / scale);
+}
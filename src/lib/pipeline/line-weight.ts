@@ -0,0 +1,122 @@
+import type {
+  ComplexityLevel,
+  LineWeightOptions,
+  LineWeightReport,
+} from "@/lib/pipeline/types";
+import { getStrokeWidthTarget } from "@/lib/prompts/generation";
+import {
+  type RawImage,
+  fromInkMask,
+  medianStrokeWidth,
+  skeletonize,
+  toInkMask,
+} from "@/lib/pipeline/raster";
+
+// Line-weight normalization: thin the ink to its centre lines, then redraw
+// every line with a round pen of the target width. Lines come out uniform,
+// so solid fills are reduced to their centre lines as well.
+
+// Allowed deviation when the target comes from the complexity band
+const DEFAULT_TOLERANCE = 1;
+
+/**
+ * Fills in the target from the complexity level's stroke-width band: its
+ * middle, with half its spread as the tolerance.
+ */
+export function resolveLineWeightOptions(
+  complexity: ComplexityLevel,
+  overrides?: Partial<LineWeightOptions>,
+): LineWeightOptions {
+  const { min, max } = getStrokeWidthTarget(complexity);
+  return {
+    targetWidth: (min + max) / 2,
+    tolerance: overrides?.targetWidth === undefined
+      ? (max - min) / 2
+      : DEFAULT_TOLERANCE,
+    ...overrides,
+  };
+}
+
+/**
+ * Draws a filled disc of ink wherever the skeleton is set.
+ */
+function redraw(
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+  strokeWidth: number,
+): Uint8Array {
+  const ink = new Uint8Array(skeleton.length);
+  // Half-pixel allowance so odd widths come out exactly and discs are round
+  const radius = (strokeWidth - 1) / 2 + 0.5;
+  const reach = Math.floor(radius);
+  const offsets: number[][] = [];
+  for (let dy = -reach; dy <= reach; dy++) {
+    for (let dx = -reach; dx <= reach; dx++) {
+      if (dx * dx + dy * dy <= radius * radius) offsets.push([dx, dy]);
+    }
+  }
+
+  for (let i = 0; i < skeleton.length; i++) {
+    if (!skeleton[i]) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (const [dx, dy] of offsets) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      ink[ny * width + nx] = 1;
+    }
+  }
+  return ink;
+}
+
+/**
+ * Redraws the lines of a raw grayscale image (first channel is used; values
+ * below 128 are ink) at the target width when their median width is out of
+ * tolerance. `outputScale` is the output size over the working size, so a
+ * target in output pixels is met after the final resize.
+ */
+export function normalizeLineWeight(
+  image: RawImage,
+  options: LineWeightOptions,
+  outputScale = 1,
+): { image: RawImage; report: LineWeightReport } {
+  const { width, height } = image;
+  const ink = toInkMask(image);
+  const skeleton = skeletonize(ink, width, height);
+  const before = medianStrokeWidth(ink, skeleton, width, height);
+
+  const targetWidth = Math.max(1, options.targetWidth / outputScale);
+  const tolerance = options.tolerance / outputScale;
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  if (before === 0 || Math.abs(before - targetWidth) <= tolerance) {
+    return {
+      image,
+      report: {
+        targetWidth: round(targetWidth),
+        strokeWidthBefore: round(before),
+        strokeWidthAfter: round(before),
+        redrawn: false,
+      },
+    };
+  }
+
+  const redrawn = redraw(skeleton, width, height, Math.round(targetWidth));
+  const after = medianStrokeWidth(
+    redrawn,
+    skeletonize(redrawn, width, height),
+    width,
+    height,
+  );
+  return {
+    image: fromInkMask(redrawn, width, height),
+    report: {
+      targetWidth: round(targetWidth),
+      strokeWidthBefore: round(before),
+      strokeWidthAfter: round(after),
+      redrawn: true,
+    },
+  };
+}
@@ -0,0 +1,229 @@
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { throwIfCancelled } from "@/lib/pipeline/cancellation";
+import { loadImage } from "@/lib/pipeline/image-source";
+import {
+  type EditImageResponse,
+  type GenerationProvider,
+  type ImageEditCallOptions,
+  type ImageGenerationCallOptions,
+  type ImageGenerationResponse,
+  PipelineError,
+  type ProviderCallOptions,
+  type ProviderResponse,
+} from "@/lib/pipeline/types";
+
+// Offline stand-in for fal.ai: synthesizes deterministic line art with Sharp
+// and returns it as data: URLs, so no FAL_KEY or network is needed.
+// This module must only be imported in server-side code.
+
+const LOCAL_IMAGE_SIZE = 1024;
+const LOCAL_STROKE_WIDTH = 6;
+// Sobel gradient magnitude above which a pixel becomes part of an outline
+const EDGE_THRESHOLD = 32;
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function toDataUrl(buffer: Buffer, mimeType: string): string {
+  return `data:${mimeType};base64,${buffer.toString("base64")}`;
+}
+
+/**
+ * Derives a stable 32-bit seed from arbitrary strings, so the same prompt
+ * always yields the same image.
+ */
+function hashSeed(...parts: string[]): number {
+  const digest = createHash("sha256").update(parts.join("\u0000")).digest();
+  return digest.readUInt32BE(0);
+}
+
+/** mulberry32 — small deterministic PRNG returning floats in [0, 1). */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ─── Line Art Synthesis ─────────────────────────────────────────────────────
+
+/**
+ * Traces edges of a source photo into black-on-white outlines
+ * (grayscale → blur → Sobel gradient magnitude → threshold).
+ */
+async function traceLineArt(source: Buffer): Promise<Buffer> {
+  const { data, info } = await sharp(source)
+    .rotate()
+    .resize(LOCAL_IMAGE_SIZE, LOCAL_IMAGE_SIZE, { fit: "inside" })
+    .grayscale()
+    .blur(1.5)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  const lines = Buffer.alloc(width * height, 255);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        data[i - width + 1] + 2 * data[i + 1] + data[i + width + 1] -
+        data[i - width - 1] - 2 * data[i - 1] - data[i + width - 1];
+      const gy =
+        data[i + width - 1] + 2 * data[i + width] + data[i + width + 1] -
+        data[i - width - 1] - 2 * data[i - width] - data[i - width + 1];
+      if (gx * gx + gy * gy > EDGE_THRESHOLD * EDGE_THRESHOLD) lines[i] = 0;
+    }
+  }
+
+  return sharp(lines, { raw: { width, height, channels: 1 } })
+    .png({ compressionLevel: 9, palette: true })
+    .toBuffer();
+}
+
+/**
+ * Draws a scene of simple outlined shapes from a seed. Used for
+ * text-to-image requests where there is no source photo.
+ */
+async function drawLineArt(seed: number): Promise<Buffer> {
+  const random = createRandom(seed);
+  const size = LOCAL_IMAGE_SIZE;
+  const shapes: string[] = [];
+
+  const horizon = Math.round(size * (0.6 + random() * 0.2));
+  shapes.push(`<path d="M0 ${horizon} L${size} ${horizon}" />`);
+
+  const sunRadius = Math.round(size * (0.06 + random() * 0.06));
+  shapes.push(
+    `<circle cx="${Math.round(size * (0.15 + random() * 0.7))}" cy="${Math.round(size * 0.18)}" r="${sunRadius}" />`,
+  );
+
+  const shapeCount = 3 + Math.floor(random() * 4);
+  for (let i = 0; i < shapeCount; i++) {
+    const w = Math.round(size * (0.1 + random() * 0.2));
+    const h = Math.round(size * (0.1 + random() * 0.25));
+    const x = Math.round(random() * (size - w));
+    const y = Math.round(horizon - h * (0.3 + random() * 0.7));
+    if (random() < 0.5) {
+      shapes.push(
+        `<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="${Math.round(w * 0.15)}" />`,
+      );
+    } else {
+      shapes.push(
+        `<ellipse cx="${x + w / 2}" cy="${y + h / 2}" rx="${w / 2}" ry="${h / 2}" />`,
+      );
+    }
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">
+<rect width="100%" height="100%" fill="#fff" />
+<g fill="#fff" stroke="#000" stroke-width="${LOCAL_STROKE_WIDTH}" stroke-linejoin="round">
+${shapes.join("\n")}
+</g>
+</svg>`;
+
+  return sharp(Buffer.from(svg))
+    .png({ compressionLevel: 9, palette: true })
+    .toBuffer();
+}
+
+// ─── Provider Calls ─────────────────────────────────────────────────────────
+
+export async function generateLocalImage(
+  options: ImageGenerationCallOptions,
+): Promise<ProviderResponse<ImageGenerationResponse>> {
+  throwIfCancelled(options.signal, "generation");
+  const seed = options.seed ?? hashSeed(options.prompt, options.negativePrompt);
+  options.onEvent?.({
+    type: "log",
+    stage: "generation",
+    message: `Drawing local line art (seed ${seed})`,
+  });
+  const image = await drawLineArt(seed);
+  throwIfCancelled(options.signal, "generation");
+
+  return {
+    data: {
+      images: [
+        {
+          url: toDataUrl(image, "image/png"),
+          content_type: "image/png",
+          width: LOCAL_IMAGE_SIZE,
+          height: LOCAL_IMAGE_SIZE,
+        },
+      ],
+      timings: {},
+      seed,
+      prompt: options.prompt,
+    },
+    attempts: 1,
+  };
+}
+
+export async function editLocalImage(
+  options: ImageEditCallOptions,
+): Promise<ProviderResponse<EditImageResponse>> {
+  const sourceUrl = options.imageUrls[0];
+  if (!sourceUrl) {
+    throw new PipelineError(
+      "Local image edit requires at least one image URL",
+      "generation",
+    );
+  }
+
+  try {
+    throwIfCancelled(options.signal, "generation");
+    const source = await loadImage(sourceUrl, options.signal);
+    options.onEvent?.({
+      type: "log",
+      stage: "generation",
+      message: "Tracing source image edges locally",
+    });
+    const image = await traceLineArt(source);
+    throwIfCancelled(options.signal, "generation");
+    return {
+      data: {
+        images: [
+          {
+            url: toDataUrl(image, "image/png"),
+            content_type: "image/png",
+          },
+        ],
+        description: `Local line-art trace (stand-in for ${options.model})`,
+      },
+      attempts: 1,
+    };
+  } catch (error) {
+    if (error instanceof PipelineError) throw error;
+    throwIfCancelled(options.signal, "generation");
+    throw new PipelineError(
+      `Local image edit failed: ${error instanceof Error ? error.message : String(error)}`,
+      "generation",
+      error,
+    );
+  }
+}
+
+/**
+ * "Uploads" a file by inlining it as a data: URL.
+ */
+export async function uploadLocalFile(
+  file: File | Blob,
+  options: ProviderCallOptions = {},
+): Promise<string> {
+  throwIfCancelled(options.signal, "analysis");
+  const buffer = Buffer.from(await file.arrayBuffer());
+  return toDataUrl(buffer, file.type || "application/octet-stream");
+}
+
+// ─── Provider Adapter ───────────────────────────────────────────────────────
+
+export const localProvider: GenerationProvider = {
+  name: "local",
+  generate: generateLocalImage,
+  edit: editLocalImage,
+  upload: uploadLocalFile,
+};
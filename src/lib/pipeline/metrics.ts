@@ -0,0 +1,62 @@
+import type { ColorabilityMetrics } from "@/lib/pipeline/types";
+import {
+  type RawImage,
+  MIN_REGION_AREA,
+  findLineEnds,
+  labelRegions,
+  medianStrokeWidth,
+  skeletonize,
+  toInkMask,
+} from "@/lib/pipeline/raster";
+
+// Objective colorability metrics for a binarized coloring page, so region
+// counts and line quality can be compared against what a complexity level
+// promises instead of only being rated by hand.
+
+// Upper bounds of the tiny / small / medium size classes, as a share of
+// the page area
+const TINY_REGION_SHARE = 0.001;
+const SMALL_REGION_SHARE = 0.01;
+const MEDIUM_REGION_SHARE = 0.1;
+
+/**
+ * Measures a raw grayscale image (first channel is used; values below 128
+ * are ink).
+ */
+export function measureColorability(image: RawImage): ColorabilityMetrics {
+  const { width, height } = image;
+  const ink = toInkMask(image);
+  const pageArea = width * height;
+
+  const regionAreas = labelRegions(ink, width)
+    .areas.slice(1)
+    .filter((area) => area >= MIN_REGION_AREA);
+  const regionSizes = { tiny: 0, small: 0, medium: 0, large: 0 };
+  for (const area of regionAreas) {
+    const share = area / pageArea;
+    if (share < TINY_REGION_SHARE) regionSizes.tiny++;
+    else if (share < SMALL_REGION_SHARE) regionSizes.small++;
+    else if (share < MEDIUM_REGION_SHARE) regionSizes.medium++;
+    else regionSizes.large++;
+  }
+
+  let inkPixels = 0;
+  for (let i = 0; i < ink.length; i++) inkPixels += ink[i];
+
+  const skeleton = skeletonize(ink, width, height);
+
+  return {
+    regionCount: regionAreas.length,
+    regionSizes,
+    smallestRegionArea: regionAreas.reduce(
+      (min, area) => Math.min(min, area),
+      regionAreas.length > 0 ? Infinity : 0,
+    ),
+    inkRatio: Math.round((inkPixels / pageArea) * 10000) / 10000,
+    strokeWidth:
+      Math.round(medianStrokeWidth(ink, skeleton, width, height) * 10) / 10,
+    openLineEnds: findLineEnds(ink, skeleton, width, height).length,
+    width,
+    height,
+  };
+}
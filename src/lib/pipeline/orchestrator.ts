@@ -1,68 +1,206 @@
 import {
   type AnalysisResult,
+  type BoundingBox,
+  type ColorByNumberOptions,
+  type DotToDotOptions,
+  type FrameOptions,
+  type GapClosingOptions,
+  type GenerationModel,
   type GenerationResult,
   type ImageAnalysis,
+  type LineWeightOptions,
+  type OutputFormat,
+  type PipelineEvent,
   type PipelineInput,
+  type PipelineOptions,
   type PipelineOutput,
+  type PipelineStreamEvent,
+  type PostProcessResult,
+  type PrintLayout,
+  type SolidFillOptions,
+  type ProviderCallOptions,
+  type QualityGateAttempt,
+  type RegionCorrection,
+  type ThresholdOptions,
+  type TracingOptions,
+  type VectorizeOptions,
+  GENERATION_MODELS,
+  OUTPUT_MIME_TYPES,
   PipelineError,
   PipelineOptionsSchema,
 } from "@/lib/pipeline/types";
 import {
+  buildEditPrompt,
   buildGenerationPrompt,
   getInferenceConfig,
 } from "@/lib/prompts/generation";
 import {
-  callImageGeneration,
-  uploadToFalStorage,
-} from "@/lib/pipeline/fal-client";
+  getAnalysisProvider,
+  getGenerationProvider,
+} from "@/lib/pipeline/providers";
+import { hashImageBytes } from "@/lib/pipeline/analysis-fixtures";
+import { imageAnalysisToAnalysisResult } from "@/lib/pipeline/analyzer";
+import { resolveColorByNumberOptions } from "@/lib/pipeline/color-by-number";
 import {
-  analyzePhoto,
-  imageAnalysisToAnalysisResult,
-} from "@/lib/pipeline/analyzer";
+  mainSubjectBox,
+  resolveDotToDotOptions,
+} from "@/lib/pipeline/dot-to-dot";
+import { resolveFrameOptions } from "@/lib/pipeline/frame";
+import { resolveLineWeightOptions } from "@/lib/pipeline/line-weight";
 import { postProcessColoringPage } from "@/lib/pipeline/post-process";
+import { runStage } from "@/lib/pipeline/progress";
+import { resolveSolidFillOptions } from "@/lib/pipeline/solid-fill";
+import { resolveTracingOptions } from "@/lib/pipeline/tracing";
+import {
+  evaluateQualityGate,
+  nextAttemptSeed,
+  resolveBaseSeed,
+  resolveQualityGateOptions,
+  selectClosestAttempt,
+} from "@/lib/pipeline/quality-gate";
 
-async function resolveImageUrl(image: File | Blob | string): Promise<string> {
+async function resolveImageUrl(
+  image: File | Blob | string,
+  options: ProviderCallOptions = {},
+): Promise<string> {
   if (typeof image === "string") return image;
-  return uploadToFalStorage(image);
+  return getGenerationProvider().upload(image, options);
+}
+
+/**
+ * Looks up a generation model by id. Throws a PipelineError for ids that
+ * are not listed in GENERATION_MODELS.
+ */
+export function getGenerationModel(modelId: string): GenerationModel {
+  const model = GENERATION_MODELS.find((m) => m.id === modelId);
+  if (!model) {
+    throw new PipelineError(
+      `Unknown generation model: ${modelId}`,
+      "generation",
+    );
+  }
+  return model;
 }
 
 // ─── Individual Pipeline Steps ──────────────────────────────────────────────
 
 /**
- * Step 1: Analyze the input image using Claude's vision model.
+ * Hashes an uploaded photo before it leaves the server, for fixture lookup.
+ * URL inputs have no local bytes and return undefined.
+ */
+async function hashInputImage(
+  image: File | Blob | string,
+): Promise<string | undefined> {
+  return typeof image === "string" ? undefined : hashImageBytes(image);
+}
+
+/**
+ * Step 1: Analyze the input image with the configured AnalysisProvider
+ * (Claude's vision model, or recorded fixtures).
  * Returns the rich ImageAnalysis with subjects, bounding boxes,
- * background complexity, and simplification targets.
+ * background complexity, and simplification targets. Pass `imageHash`
+ * when `input.image` is a URL the photo was already uploaded to.
  */
 export async function analyzeImage(
   input: PipelineInput,
+  imageHash?: string,
 ): Promise<{ imageAnalysis: ImageAnalysis; analysisResult: AnalysisResult }> {
-  const imageUrl = await resolveImageUrl(input.image);
-  const imageAnalysis = await analyzePhoto(imageUrl);
+  const callOptions = {
+    retry: input.options.retry,
+    signal: input.signal,
+    onEvent: input.onEvent,
+  };
+  const hash = imageHash ?? (await hashInputImage(input.image));
+  const imageUrl = await resolveImageUrl(input.image, callOptions);
+  const imageAnalysis = await getAnalysisProvider().analyze(imageUrl, {
+    ...callOptions,
+    imageHash: hash,
+  });
   const analysisResult = imageAnalysisToAnalysisResult(imageAnalysis);
   return { imageAnalysis, analysisResult };
 }
 
 /**
  * Step 2: Generate a coloring page based on the analysis.
- * Uses the image generation model with a complexity-tuned prompt.
+ * Edit models receive the source image plus a combined prompt; text-to-image
+ * models get a separate negative prompt and complexity-tuned inference config.
+ * `correction` strengthens the region-count wording when regenerating a
+ * page the quality gate rejected.
  */
 export async function generateColoringPage(
   input: PipelineInput,
-  analysis: AnalysisResult,
+  analysis?: AnalysisResult,
+  correction?: RegionCorrection,
 ): Promise<GenerationResult> {
+  const {
+    model: modelId,
+    promptVariant,
+    targetComplexity,
+    seed,
+    retry,
+  } = input.options;
+  const { signal, onEvent } = input;
+  const model = getGenerationModel(modelId);
+
+  if (model.type === "edit") {
+    const imageUrl = await resolveImageUrl(input.image, {
+      retry,
+      signal,
+      onEvent,
+    });
+    const prompt = buildEditPrompt(
+      promptVariant,
+      targetComplexity,
+      analysis,
+      correction,
+    );
+
+    const { data: response, attempts } = await getGenerationProvider().edit({
+      model: model.id,
+      prompt,
+      imageUrls: [imageUrl],
+      outputFormat: "png",
+      seed,
+      retry,
+      signal,
+      onEvent,
+    });
+
+    const firstImage = response.images[0];
+    if (!firstImage) {
+      throw new PipelineError("Image edit returned no images", "generation");
+    }
+
+    return {
+      imageUrl: firstImage.url,
+      width: undefined,
+      height: undefined,
+      model: model.id,
+      promptUsed: prompt,
+      seed,
+      description: response.description,
+      attempts,
+    };
+  }
+
   const { prompt, negativePrompt } = buildGenerationPrompt(
-    input.options.promptVariant,
-    input.options.targetComplexity,
+    promptVariant,
+    targetComplexity,
     analysis,
+    correction,
   );
-  const inferenceConfig = getInferenceConfig(input.options.targetComplexity);
+  const inferenceConfig = getInferenceConfig(targetComplexity);
 
-  const response = await callImageGeneration({
+  const { data: response, attempts } = await getGenerationProvider().generate({
     prompt,
     negativePrompt,
     imageSize: "square_hd",
     numInferenceSteps: inferenceConfig.numInferenceSteps,
     guidanceScale: inferenceConfig.guidanceScale,
+    seed,
+    retry,
+    signal,
+    onEvent,
   });
 
   const firstImage = response.images[0];
@@ -77,42 +215,135 @@ export async function generateColoringPage(
     imageUrl: firstImage.url,
     width: firstImage.width,
     height: firstImage.height,
-    model: "fal-ai/fast-sdxl",
+    model: model.id,
     promptUsed: prompt,
     negativePromptUsed: negativePrompt,
     seed: response.seed,
+    attempts,
   };
 }
 
+export interface PostProcessStepOptions {
+  readonly outputFormat?: OutputFormat;
+  readonly threshold?: Partial<ThresholdOptions>;
+  readonly speckleArea?: number;
+  readonly solidFills?: SolidFillOptions;
+  readonly lineWeight?: LineWeightOptions;
+  readonly gapClosing?: Partial<GapClosingOptions>;
+  readonly colorByNumber?: ColorByNumberOptions;
+  readonly dotToDot?: DotToDotOptions;
+  readonly subjectBox?: BoundingBox;
+  readonly coloredPreview?: boolean;
+  readonly tracing?: TracingOptions;
+  readonly frame?: FrameOptions;
+  readonly sourceImage?: Buffer | string;
+  readonly vectorize?: Partial<VectorizeOptions>;
+  readonly print?: Partial<PrintLayout>;
+  readonly outputWidth?: number;
+  readonly outputHeight?: number;
+  readonly signal?: AbortSignal;
+}
+
 /**
  * Step 3: Post-process the generated image for clean coloring page output.
  */
 export async function postProcess(
   imageUrlOrBuffer: string | Buffer,
-  options?: {
-    readonly outputFormat?: "png" | "jpeg";
-    readonly outputWidth?: number;
-    readonly outputHeight?: number;
-  },
-): Promise<Buffer> {
+  options?: PostProcessStepOptions,
+): Promise<PostProcessResult> {
   return postProcessColoringPage(imageUrlOrBuffer, {
-    threshold: 128,
-    denoise: true,
+    threshold: options?.threshold,
+    solidFills: options?.solidFills,
+    lineWeight: options?.lineWeight,
+    // Area-based speckle removal replaces the median filter when set
+    denoise: options?.speckleArea === undefined,
     denoiseKernel: 3,
+    speckleArea: options?.speckleArea,
     outputFormat: options?.outputFormat ?? "png",
+    gapClosing: options?.gapClosing,
+    colorByNumber: options?.colorByNumber,
+    dotToDot: options?.dotToDot,
+    subjectBox: options?.subjectBox,
+    coloredPreview: options?.coloredPreview,
+    tracing: options?.tracing,
+    frame: options?.frame,
+    sourceImage: options?.sourceImage,
+    vectorize: options?.vectorize,
+    print: options?.print,
     outputWidth: options?.outputWidth,
     outputHeight: options?.outputHeight,
+    signal: options?.signal,
   });
 }
 
+/**
+ * Post-processing settings for a run: every pass enabled in `options`,
+ * resolved against the target complexity. `sourceImage` is the uploaded
+ * photo (sampled for colors); `imageAnalysis` locates the subject drawn as
+ * dots. Shared by runPipeline and callers that run the steps themselves.
+ */
+export function resolvePostProcessOptions(
+  options: PipelineOptions,
+  sourceImage: string,
+  imageAnalysis?: ImageAnalysis,
+): PostProcessStepOptions {
+  const complexity = options.targetComplexity;
+  const colorByNumber = options.colorByNumber
+    ? resolveColorByNumberOptions(complexity, options.colorByNumber)
+    : undefined;
+  const dotToDot = options.dotToDot
+    ? resolveDotToDotOptions(complexity, options.dotToDot)
+    : undefined;
+  return {
+    outputFormat: options.outputFormat,
+    threshold: options.threshold,
+    speckleArea: options.speckleArea,
+    solidFills: options.solidFills
+      ? resolveSolidFillOptions(complexity, options.solidFills)
+      : undefined,
+    lineWeight: options.lineWeight
+      ? resolveLineWeightOptions(complexity, options.lineWeight)
+      : undefined,
+    gapClosing: options.gapClosing,
+    colorByNumber,
+    dotToDot,
+    // The analyzer's largest subject is the one drawn as dots
+    subjectBox:
+      dotToDot && imageAnalysis ? mainSubjectBox(imageAnalysis) : undefined,
+    coloredPreview: options.coloredPreview,
+    tracing: options.tracing
+      ? resolveTracingOptions(complexity, options.tracing)
+      : undefined,
+    frame: options.frame
+      ? resolveFrameOptions(complexity, options.frame)
+      : undefined,
+    sourceImage:
+      colorByNumber || options.coloredPreview ? sourceImage : undefined,
+    vectorize: options.vectorize,
+    print: options.print,
+    outputWidth: options.outputWidth,
+    outputHeight: options.outputHeight,
+  };
+}
+
 // ─── Full Pipeline ──────────────────────────────────────────────────────────
 
 /**
  * Runs the complete coloring page generation pipeline:
  * 1. Validates input options
  * 2. Analyzes the input image (Claude vision)
- * 3. Generates a coloring page (fal.ai image generation)
+ * 3. Generates a coloring page (edit or text-to-image model via the
+ *    configured GenerationProvider)
  * 4. Post-processes the result (Sharp)
+ *
+ * With `options.qualityGate`, steps 3-4 repeat (up to `maxAttempts` times)
+ * while the page's region count misses the complexity target; every
+ * attempt and its rejection reason is returned in `qualityGate`.
+ *
+ * Aborting `input.signal` stops the run at the current stage with a
+ * PipelineError whose `cancelled` flag is set. `input.onEvent` receives
+ * stage-start/stage-end events with per-stage timing, plus fal queue
+ * position and log lines during generation.
  */
 export async function runPipeline(
   input: PipelineInput,
@@ -128,49 +359,199 @@ export async function runPipeline(
       optionsResult.error,
     );
   }
-  const validatedInput: PipelineInput = {
-    image: input.image,
-    options: optionsResult.data,
-  };
+  const options = optionsResult.data;
+  if (options.colorByNumber && options.dotToDot) {
+    throw new PipelineError(
+      "Invalid pipeline options: colorByNumber and dotToDot cannot be combined",
+      "analysis",
+    );
+  }
+  const { signal, onEvent } = input;
 
   // Step 1: Analysis (Claude vision)
-  const analysisStart = performance.now();
-  const { imageAnalysis, analysisResult } =
-    await analyzeImage(validatedInput);
-  const analysisMs = performance.now() - analysisStart;
-
-  // Step 2: Generation (fal.ai)
-  const generationStart = performance.now();
-  const generation = await generateColoringPage(
-    validatedInput,
-    analysisResult,
-  );
-  const generationMs = performance.now() - generationStart;
-
-  // Step 3: Post-processing (Sharp)
-  const postProcessStart = performance.now();
-  const outputFormat =
-    validatedInput.options.outputFormat === "jpeg" ? "jpeg" : "png";
-  const finalImage = await postProcess(generation.imageUrl, {
-    outputFormat,
-    outputWidth: validatedInput.options.outputWidth,
-    outputHeight: validatedInput.options.outputHeight,
+  const {
+    value: { validatedInput, imageUrl, imageAnalysis, analysisResult },
+    durationMs: analysisMs,
+  } = await runStage("analysis", onEvent, async () => {
+    // Upload once so analysis and edit-model generation share the same URL,
+    // hashing the original bytes first for fixture lookup
+    const imageHash = await hashInputImage(input.image);
+    const imageUrl = await resolveImageUrl(input.image, {
+      retry: options.retry,
+      signal,
+      onEvent,
+    });
+    const validatedInput: PipelineInput = {
+      image: imageUrl,
+      options,
+      signal,
+      onEvent,
+    };
+    return {
+      validatedInput,
+      imageUrl,
+      ...(await analyzeImage(validatedInput, imageHash)),
+    };
   });
-  const postProcessingMs = performance.now() - postProcessStart;
 
+  // Steps 2-3 run once, or until the quality gate accepts the page
+  const { outputFormat } = options;
+  const postProcessOptions = resolvePostProcessOptions(
+    options,
+    imageUrl,
+    imageAnalysis,
+  );
+  const gate = options.qualityGate
+    ? resolveQualityGateOptions(options.qualityGate)
+    : undefined;
+  const attempts: QualityGateAttempt[] = [];
+  const results: PostProcessResult[] = [];
+  let generationMs = 0;
+  let postProcessingMs = 0;
+  let correction: RegionCorrection | undefined;
+  let passed = false;
+  const baseSeed = resolveBaseSeed(options.seed);
+
+  for (let attempt = 0; attempt < (gate?.maxAttempts ?? 1); attempt++) {
+    const retryWithSeed =
+      attempt > 0 && gate?.retryStrategy !== "adjust-prompt";
+    const seed = retryWithSeed
+      ? nextAttemptSeed(baseSeed, attempt)
+      : options.seed;
+    const attemptInput: PipelineInput = retryWithSeed
+      ? { ...validatedInput, options: { ...options, seed } }
+      : validatedInput;
+
+    // Step 2: Generation (GenerationProvider)
+    const { value: generation, durationMs: attemptGenerationMs } =
+      await runStage("generation", onEvent, () =>
+        generateColoringPage(attemptInput, analysisResult, correction),
+      );
+    generationMs += attemptGenerationMs;
+
+    // Step 3: Post-processing (Sharp)
+    const { value: postProcessed, durationMs: attemptPostProcessingMs } =
+      await runStage("post-processing", onEvent, () =>
+        postProcess(generation.imageUrl, { ...postProcessOptions, signal }),
+      );
+    postProcessingMs += attemptPostProcessingMs;
+    results.push(postProcessed);
+
+    if (!gate) {
+      attempts.push({
+        generation,
+        metrics: postProcessed.metrics,
+        seed: seed ?? generation.seed,
+      });
+      break;
+    }
+
+    const verdict = evaluateQualityGate(
+      options.targetComplexity,
+      postProcessed.metrics,
+    );
+    attempts.push({
+      generation,
+      metrics: postProcessed.metrics,
+      seed: seed ?? generation.seed,
+      correction,
+      rejectedReason: verdict.reason,
+    });
+    if (!verdict.reason) {
+      passed = true;
+      break;
+    }
+    onEvent?.({
+      type: "log",
+      stage: "post-processing",
+      message: `Quality gate rejected attempt ${attempt + 1}: ${verdict.reason}`,
+    });
+    if (gate.retryStrategy !== "new-seed") correction = verdict.correction;
+  }
+
+  const selected = passed
+    ? attempts.length - 1
+    : selectClosestAttempt(options.targetComplexity, attempts);
+  const postProcessed = results[selected];
   const totalMs = performance.now() - pipelineStart;
 
   return {
-    finalImage,
-    mimeType: outputFormat === "png" ? "image/png" : "image/jpeg",
+    finalImage: postProcessed.image,
+    mimeType: OUTPUT_MIME_TYPES[outputFormat],
+    metrics: postProcessed.metrics,
+    threshold: postProcessed.threshold,
+    speckles: postProcessed.speckles,
+    solidFills: postProcessed.solidFills,
+    lineWeight: postProcessed.lineWeight,
+    gapClosing: postProcessed.gapClosing,
+    colorByNumber: postProcessed.colorByNumber,
+    dotToDot: postProcessed.dotToDot,
+    preview: postProcessed.preview,
+    tracing: postProcessed.tracing,
+    qualityGate: gate
+      ? { passed, attempts, selectedAttempt: selected }
+      : undefined,
     imageAnalysis,
     analysis: analysisResult,
-    generation,
+    generation: attempts[selected].generation,
     timing: {
-      analysisMs: Math.round(analysisMs),
-      generationMs: Math.round(generationMs),
-      postProcessingMs: Math.round(postProcessingMs),
+      analysisMs,
+      generationMs,
+      postProcessingMs,
       totalMs: Math.round(totalMs),
     },
   };
 }
+
+/**
+ * Async-iterator variant of runPipeline. Yields every PipelineEvent as it
+ * happens, then a final `complete` event carrying the PipelineOutput.
+ * Pipeline errors are rethrown from the iterator. Breaking out of the loop
+ * does not stop the run; abort `input.signal` for that.
+ */
+export async function* streamPipeline(
+  input: PipelineInput,
+): AsyncGenerator<PipelineStreamEvent> {
+  const pending: PipelineStreamEvent[] = [];
+  let wake: (() => void) | undefined;
+  let finished = false;
+  let failure: { error: unknown } | undefined;
+
+  const push = (event: PipelineStreamEvent) => {
+    pending.push(event);
+    wake?.();
+  };
+
+  runPipeline({
+    ...input,
+    onEvent: (event: PipelineEvent) => {
+      input.onEvent?.(event);
+      push(event);
+    },
+  })
+    .then(
+      (output) => push({ type: "complete", output }),
+      (error: unknown) => {
+        failure = { error };
+      },
+    )
+    .finally(() => {
+      finished = true;
+      wake?.();
+    });
+
+  while (true) {
+    const next = pending.shift();
+    if (next) {
+      yield next;
+      continue;
+    }
+    if (finished) break;
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+    wake = undefined;
+  }
+
+  if (failure) throw failure.error;
+}
@@ -0,0 +1,503 @@
+import { deflateSync } from "zlib";
+import sharp from "sharp";
+import {
+  type PaperSize,
+  PipelineError,
+  type PrintLayout,
+} from "@/lib/pipeline/types";
+import { formatNumber } from "@/lib/pipeline/image-source";
+import { INK_LEVEL, type RawImage } from "@/lib/pipeline/raster";
+
+// Lays processed coloring pages out on physical pages and writes them as
+// PDF: each page is fitted and centered inside the margins, rasterized at
+// the requested DPI, and embedded as a 1-bit image. Text uses the standard
+// Helvetica fonts, so nothing needs embedding.
+
+export const DEFAULT_PRINT_LAYOUT: PrintLayout = {
+  paperSize: "letter",
+  dpi: 300,
+  marginIn: 0.5,
+  bleedIn: 0,
+  cropMarks: false,
+};
+
+// Trim sizes in inches
+const PAPER_SIZES: Record<Exclude<PaperSize, "custom">, [number, number]> = {
+  letter: [8.5, 11],
+  a4: [210 / 25.4, 297 / 25.4],
+};
+
+export const POINTS_PER_INCH = 72;
+// Crop marks: gap between bleed edge and mark, mark length, stroke width
+const CROP_MARK_OFFSET_IN = 0.0625;
+const CROP_MARK_LENGTH_IN = 0.25;
+const CROP_MARK_WIDTH_PT = 0.5;
+
+export function resolvePrintLayout(
+  overrides?: Partial<PrintLayout>,
+): PrintLayout {
+  return { ...DEFAULT_PRINT_LAYOUT, ...overrides };
+}
+
+// ─── Geometry ───────────────────────────────────────────────────────────────
+
+export interface Box {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface PageGeometry {
+  // All boxes in points, origin bottom-left of the media box
+  readonly media: Box;
+  readonly bleed: Box;
+  readonly trim: Box;
+  // Trim box minus margins
+  readonly live: Box;
+  readonly image: Box;
+  // Pixel size the page is rasterized at
+  readonly pixelWidth: number;
+  readonly pixelHeight: number;
+}
+
+export interface PageReserve {
+  // Space (inches) kept free for text above / below the image
+  readonly headerIn?: number;
+  readonly footerIn?: number;
+}
+
+function getTrimSize(layout: PrintLayout): [number, number] {
+  if (layout.paperSize !== "custom") return PAPER_SIZES[layout.paperSize];
+  if (!layout.widthIn || !layout.heightIn) {
+    throw new PipelineError(
+      "Custom paper size requires widthIn and heightIn",
+      "post-processing",
+    );
+  }
+  return [layout.widthIn, layout.heightIn];
+}
+
+/**
+ * Computes page boxes and the centered, aspect-preserving placement of an
+ * image of the given pixel size inside the trim margins, less any space
+ * reserved for a header or footer.
+ */
+export function computePageGeometry(
+  layout: PrintLayout,
+  imageWidth: number,
+  imageHeight: number,
+  reserve: PageReserve = {},
+): PageGeometry {
+  const { headerIn = 0, footerIn = 0 } = reserve;
+  const [trimWidthIn, trimHeightIn] = getTrimSize(layout);
+  const liveWidthIn = trimWidthIn - 2 * layout.marginIn;
+  const liveHeightIn = trimHeightIn - 2 * layout.marginIn;
+  const imageAreaHeightIn = liveHeightIn - headerIn - footerIn;
+  if (liveWidthIn <= 0 || imageAreaHeightIn <= 0) {
+    throw new PipelineError(
+      `Margins of ${layout.marginIn}in leave no room on a ${trimWidthIn.toFixed(2)}x${trimHeightIn.toFixed(2)}in page`,
+      "post-processing",
+    );
+  }
+
+  const scale = Math.min(
+    liveWidthIn / imageWidth,
+    imageAreaHeightIn / imageHeight,
+  );
+  const placedWidthIn = imageWidth * scale;
+  const placedHeightIn = imageHeight * scale;
+
+  const slugIn = layout.cropMarks
+    ? CROP_MARK_OFFSET_IN + CROP_MARK_LENGTH_IN
+    : 0;
+  const outerIn = layout.bleedIn + slugIn;
+  const pt = (inches: number) => inches * POINTS_PER_INCH;
+
+  const trim: Box = {
+    x: pt(outerIn),
+    y: pt(outerIn),
+    width: pt(trimWidthIn),
+    height: pt(trimHeightIn),
+  };
+  const live: Box = {
+    x: trim.x + pt(layout.marginIn),
+    y: trim.y + pt(layout.marginIn),
+    width: pt(liveWidthIn),
+    height: pt(liveHeightIn),
+  };
+  return {
+    media: {
+      x: 0,
+      y: 0,
+      width: pt(trimWidthIn + 2 * outerIn),
+      height: pt(trimHeightIn + 2 * outerIn),
+    },
+    bleed: {
+      x: pt(slugIn),
+      y: pt(slugIn),
+      width: pt(trimWidthIn + 2 * layout.bleedIn),
+      height: pt(trimHeightIn + 2 * layout.bleedIn),
+    },
+    trim,
+    live,
+    image: {
+      x: live.x + pt((liveWidthIn - placedWidthIn) / 2),
+      y: live.y + pt(footerIn + (imageAreaHeightIn - placedHeightIn) / 2),
+      width: pt(placedWidthIn),
+      height: pt(placedHeightIn),
+    },
+    pixelWidth: Math.max(1, Math.round(placedWidthIn * layout.dpi)),
+    pixelHeight: Math.max(1, Math.round(placedHeightIn * layout.dpi)),
+  };
+}
+
+/**
+ * Resamples a page to the pixel size it occupies at the layout's DPI and
+ * re-binarizes it.
+ */
+export async function rasterizeForPrint(
+  image: RawImage,
+  geometry: PageGeometry,
+): Promise<RawImage> {
+  const { data, info } = await sharp(image.data, {
+    raw: {
+      width: image.width,
+      height: image.height,
+      channels: image.channels as 1 | 2 | 3 | 4,
+    },
+  })
+    .toColourspace("b-w")
+    .resize(geometry.pixelWidth, geometry.pixelHeight, { fit: "fill" })
+    .threshold(INK_LEVEL)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+// ─── Text ───────────────────────────────────────────────────────────────────
+
+export type PdfFont = "regular" | "bold";
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+};
+
+// Advance widths (1/1000 em) of printable ASCII, from the standard AFMs
+const FONT_WIDTHS: Record<PdfFont, readonly number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+// Used for Latin-1 characters outside printable ASCII
+const DEFAULT_CHAR_WIDTH = 556;
+
+/**
+ * Maps text to the single-byte WinAnsi range; characters outside Latin-1
+ * become "?".
+ */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+export function measureText(text: string, size: number, font: PdfFont): number {
+  let units = 0;
+  for (const char of toWinAnsi(text)) {
+    const code = char.charCodeAt(0);
+    units +=
+      code >= 32 && code <= 126
+        ? FONT_WIDTHS[font][code - 32]
+        : DEFAULT_CHAR_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Breaks text into lines no wider than `maxWidth` points, splitting on
+ * whitespace (and inside words that are too long on their own).
+ */
+export function wrapText(
+  text: string,
+  size: number,
+  font: PdfFont,
+  maxWidth: number,
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, size, font) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word;
+    while (measureText(line, size, font) > maxWidth && line.length > 1) {
+      let cut = line.length - 1;
+      while (cut > 1 && measureText(line.slice(0, cut), size, font) > maxWidth) {
+        cut--;
+      }
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+export interface TextOptions {
+  readonly size: number;
+  readonly font?: PdfFont;
+  // How `x` anchors the line
+  readonly align?: "left" | "center" | "right";
+}
+
+/**
+ * Content stream operators that draw one line of text with its baseline
+ * at `y`.
+ */
+export function drawText(
+  text: string,
+  x: number,
+  y: number,
+  options: TextOptions,
+): string {
+  const { size, font = "regular", align = "left" } = options;
+  const width = measureText(text, size, font);
+  const left =
+    align === "center" ? x - width / 2 : align === "right" ? x - width : x;
+  const escaped = toWinAnsi(text).replace(/[\\()]/g, (c) => `\\${c}`);
+  return `BT /${FONT_RESOURCES[font].name} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(y)} Td (${escaped}) Tj ET`;
+}
+
+// ─── PDF Writing ────────────────────────────────────────────────────────────
+
+// A 1-bit image, already packed and Flate-compressed
+export interface PdfImage {
+  // Resource name referenced from the page content as /<name> Do
+  readonly name: string;
+  readonly width: number;
+  readonly height: number;
+  readonly data: Buffer;
+}
+
+export interface PdfPage {
+  readonly media: Box;
+  readonly bleed?: Box;
+  readonly trim?: Box;
+  readonly content: string;
+  readonly images: readonly PdfImage[];
+}
+
+function formatBox(box: Box): string {
+  return `[${[box.x, box.y, box.x + box.width, box.y + box.height].map((n) => formatNumber(n)).join(" ")}]`;
+}
+
+/**
+ * Packs grayscale pixels into 1-bit rows (1 = paper, 0 = ink), each row
+ * padded to a whole byte as PDF expects.
+ */
+function packBits(image: RawImage): Buffer {
+  const rowBytes = Math.ceil(image.width / 8);
+  const packed = Buffer.alloc(rowBytes * image.height, 0xff);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const value = image.data[(y * image.width + x) * image.channels];
+      if (value < INK_LEVEL) {
+        packed[y * rowBytes + (x >> 3)] &= ~(0x80 >> (x & 7));
+      }
+    }
+  }
+  return packed;
+}
+
+/**
+ * Encodes a binarized bitmap for embedding, so callers building many pages
+ * only hold the compressed data.
+ */
+export function encodePdfImage(name: string, bitmap: RawImage): PdfImage {
+  return {
+    name,
+    width: bitmap.width,
+    height: bitmap.height,
+    data: deflateSync(packBits(bitmap)),
+  };
+}
+
+function stream(dictionary: string, data: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+    data,
+    Buffer.from("\nendstream"),
+  ]);
+}
+
+/**
+ * Operators that draw an image scaled into `box`.
+ */
+export function drawImage(name: string, box: Box): string {
+  return [
+    "q",
+    `${formatNumber(box.width)} 0 0 ${formatNumber(box.height)} ${formatNumber(box.x)} ${formatNumber(box.y)} cm`,
+    `/${name} Do`,
+    "Q",
+  ].join("\n");
+}
+
+/**
+ * Operators for crop marks at the trim corners, outside the bleed.
+ */
+export function drawCropMarks(geometry: PageGeometry, bleedIn: number): string {
+  const { trim } = geometry;
+  const offset = (bleedIn + CROP_MARK_OFFSET_IN) * POINTS_PER_INCH;
+  const length = CROP_MARK_LENGTH_IN * POINTS_PER_INCH;
+  const left = trim.x;
+  const right = trim.x + trim.width;
+  const bottom = trim.y;
+  const top = trim.y + trim.height;
+
+  const lines: [number, number, number, number][] = [];
+  for (const [x, sx] of [
+    [left, -1],
+    [right, 1],
+  ]) {
+    for (const [y, sy] of [
+      [bottom, -1],
+      [top, 1],
+    ]) {
+      // Horizontal mark in line with the trim's top/bottom edge
+      lines.push([x + sx * offset, y, x + sx * (offset + length), y]);
+      // Vertical mark in line with the trim's left/right edge
+      lines.push([x, y + sy * offset, x, y + sy * (offset + length)]);
+    }
+  }
+  return [
+    "q",
+    `${CROP_MARK_WIDTH_PT} w 0 G`,
+    ...lines.map(
+      ([x1, y1, x2, y2]) =>
+        `${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`,
+    ),
+    "Q",
+  ].join("\n");
+}
+
+/**
+ * Serializes pages into a PDF document. Every page can use the Helvetica
+ * fonts; each page embeds its own images.
+ */
+export function writePdfDocument(pages: readonly PdfPage[]): Buffer {
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then per page
+  const objects: Buffer[] = [];
+  const addObject = (body: Buffer | string): number => {
+    objects.push(typeof body === "string" ? Buffer.from(body) : body);
+    return objects.length;
+  };
+
+  addObject("<< /Type /Catalog /Pages 2 0 R >>");
+  addObject(""); // page tree, filled in once the page objects are known
+  const fontRefs = (Object.keys(FONT_RESOURCES) as PdfFont[]).map((font) => {
+    const { name, baseFont } = FONT_RESOURCES[font];
+    const ref = addObject(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`,
+    );
+    return `/${name} ${ref} 0 R`;
+  });
+
+  const pageRefs = pages.map((page) => {
+    const imageRefs = page.images.map(({ name, width, height, data }) => {
+      const ref = addObject(
+        stream(
+          `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 1 /Filter /FlateDecode`,
+          data,
+        ),
+      );
+      return `/${name} ${ref} 0 R`;
+    });
+    const contentRef = addObject(
+      stream("/Filter /FlateDecode", deflateSync(Buffer.from(page.content, "latin1"))),
+    );
+    const boxes = [
+      `/MediaBox ${formatBox(page.media)}`,
+      ...(page.bleed ? [`/BleedBox ${formatBox(page.bleed)}`] : []),
+      ...(page.trim ? [`/TrimBox ${formatBox(page.trim)}`] : []),
+    ].join(" ");
+    return addObject(
+      `<< /Type /Page /Parent 2 0 R ${boxes} /Resources << /Font << ${fontRefs.join(" ")} >> /XObject << ${imageRefs.join(" ")} >> >> /Contents ${contentRef} 0 R >>`,
+    );
+  });
+  objects[1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(" ")}] /Count ${pageRefs.length} >>`,
+  );
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`),
+      body,
+      Buffer.from("\nendobj\n"),
+    ]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+    "",
+  ].join("\n");
+  chunks.push(Buffer.from(xref));
+  return Buffer.concat(chunks);
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Places a processed (binarized) page on a printable PDF page. The image is
+ * resampled so it prints at exactly `layout.dpi` at its placed size.
+ */
+export async function renderPrintPdf(
+  image: RawImage,
+  overrides?: Partial<PrintLayout>,
+): Promise<Buffer> {
+  const layout = resolvePrintLayout(overrides);
+  const geometry = computePageGeometry(layout, image.width, image.height);
+  const bitmap = await rasterizeForPrint(image, geometry);
+
+  return writePdfDocument([
+    {
+      media: geometry.media,
+      bleed: geometry.bleed,
+      trim: geometry.trim,
+      content: [
+        drawImage("Im0", geometry.image),
+        ...(layout.cropMarks ? [drawCropMarks(geometry, layout.bleedIn)] : []),
+      ].join("\n"),
+      images: [encodePdfImage("Im0", bitmap)],
+    },
+  ]);
+}
@@ -0,0 +1,104 @@
+import sharp from "sharp";
+
+// Colors of the source photo under each region of the line art, shared by
+// color-by-number and the colored preview. The photo is stretched to the
+// line art's size, since edit models keep the photo's framing.
+
+export type Rgb = readonly [number, number, number];
+
+// Quantization bits per channel when looking for a region's dominant color
+const DOMINANT_BITS = 3;
+
+/**
+ * RGB pixels of `photo` resized to `width` × `height`.
+ */
+export async function samplePhoto(
+  photo: Buffer,
+  width: number,
+  height: number,
+): Promise<Uint8Array> {
+  const { data } = await sharp(photo)
+    .rotate()
+    .resize(width, height, { fit: "fill" })
+    .removeAlpha()
+    .toColourspace("srgb")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return data;
+}
+
+/**
+ * Mean photo color per region label (index 0, the ink, is black).
+ */
+export function averageRegionColors(
+  labels: Int32Array,
+  areas: readonly number[],
+  pixels: Uint8Array,
+): Rgb[] {
+  const sums = new Float64Array(areas.length * 3);
+  for (let i = 0; i < labels.length; i++) {
+    const label = labels[i];
+    if (!label) continue;
+    for (let j = 0; j < 3; j++) sums[label * 3 + j] += pixels[i * 3 + j];
+  }
+  return areas.map((area, label) =>
+    label === 0 || area === 0
+      ? [0, 0, 0]
+      : [
+          sums[label * 3] / area,
+          sums[label * 3 + 1] / area,
+          sums[label * 3 + 2] / area,
+        ],
+  );
+}
+
+/**
+ * Most common photo color per region label (index 0, the ink, is black):
+ * pixels are bucketed by coarse color and the mean of the fullest bucket is
+ * used, so a stray highlight or shadow does not tint the whole region.
+ */
+export function dominantRegionColors(
+  labels: Int32Array,
+  areas: readonly number[],
+  pixels: Uint8Array,
+): Rgb[] {
+  const shift = 8 - DOMINANT_BITS;
+  const bucketsPerRegion = 1 << (3 * DOMINANT_BITS);
+  // Per region and bucket: pixel count and channel sums
+  const buckets = new Map<number, [number, number, number, number]>();
+  for (let i = 0; i < labels.length; i++) {
+    const label = labels[i];
+    if (!label) continue;
+    const r = pixels[i * 3];
+    const g = pixels[i * 3 + 1];
+    const b = pixels[i * 3 + 2];
+    const key =
+      label * bucketsPerRegion +
+      (((r >> shift) << (2 * DOMINANT_BITS)) |
+        ((g >> shift) << DOMINANT_BITS) |
+        (b >> shift));
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket[0]++;
+      bucket[1] += r;
+      bucket[2] += g;
+      bucket[3] += b;
+    } else {
+      buckets.set(key, [1, r, g, b]);
+    }
+  }
+
+  const best = new Array<[number, number, number, number] | undefined>(
+    areas.length,
+  );
+  for (const [key, bucket] of buckets) {
+    const label = Math.floor(key / bucketsPerRegion);
+    if (!best[label] || bucket[0] > best[label][0]) best[label] = bucket;
+  }
+  return areas.map((_, label) => {
+    const bucket = best[label];
+    if (label === 0 || !bucket) return [0, 0, 0];
+    const [count, r, g, b] = bucket;
+    return [r / count, g / count, b / count];
+  });
+}
@@ -1,49 +1,169 @@
 import sharp from "sharp";
-import { PipelineError } from "@/lib/pipeline/types";
+import {
+  type BoundingBox,
+  type ColorByNumberOptions,
+  type ColorByNumberReport,
+  type DotToDotOptions,
+  type DotToDotReport,
+  type FrameOptions,
+  type GapClosingOptions,
+  type GapClosingReport,
+  type LineWeightOptions,
+  type LineWeightReport,
+  type OutputFormat,
+  PipelineError,
+  type PostProcessResult,
+  type PrintLayout,
+  type SolidFillOptions,
+  type SolidFillReport,
+  type SpeckleReport,
+  type ThresholdOptions,
+  type TracingOptions,
+  type VectorizeOptions,
+} from "@/lib/pipeline/types";
+import { throwIfCancelled } from "@/lib/pipeline/cancellation";
+import { renderColorByNumber } from "@/lib/pipeline/color-by-number";
+import { renderDotToDot } from "@/lib/pipeline/dot-to-dot";
+import { applyFrame } from "@/lib/pipeline/frame";
+import { loadImage } from "@/lib/pipeline/image-source";
+import { renderColoredPreview } from "@/lib/pipeline/preview";
+import { renderPrintPdf } from "@/lib/pipeline/pdf";
+import { measureColorability } from "@/lib/pipeline/metrics";
+import { normalizeLineWeight } from "@/lib/pipeline/line-weight";
+import {
+  type RawImage,
+  closeGaps,
+  removeSpeckles,
+} from "@/lib/pipeline/raster";
+import { hollowSolidFills } from "@/lib/pipeline/solid-fill";
+import { binarize } from "@/lib/pipeline/threshold";
+import { renderTracingGuides } from "@/lib/pipeline/tracing";
+import { vectorizeBitmap } from "@/lib/pipeline/vectorize";
 
 interface PostProcessOptions {
-  readonly threshold?: number;
+  // Binarization method; omitted = auto-selected
+  readonly threshold?: Partial<ThresholdOptions>;
   readonly denoise?: boolean;
   readonly denoiseKernel?: number;
-  readonly outputFormat?: "png" | "jpeg";
+  // Ink specks and paper pinholes smaller than this (px, in the output
+  // image) are removed after binarizing; unlike the median filter it
+  // catches larger blobs and keeps fine detail. Omitted = off
+  readonly speckleArea?: number;
+  readonly outputFormat?: OutputFormat;
+  // Turns solid black areas into outlines after binarizing; omitted = off
+  readonly solidFills?: SolidFillOptions;
+  // Redraws lines at one width; omitted = off
+  readonly lineWeight?: LineWeightOptions;
+  // Bridges small breaks in outlines after binarizing; omitted = off
+  readonly gapClosing?: Partial<GapClosingOptions>;
+  // Numbers every region with a color sampled from `sourceImage`;
+  // omitted = off
+  readonly colorByNumber?: ColorByNumberOptions;
+  // Replaces the outline of the subject inside `subjectBox` with numbered
+  // dots and fades the other lines; omitted = off. Cannot be combined with
+  // colorByNumber
+  readonly dotToDot?: DotToDotOptions;
+  // Where the subject is, as a share of the page; omitted = the whole page
+  readonly subjectBox?: BoundingBox;
+  // Also renders a PNG of the regions flat-filled with colors from
+  // `sourceImage`
+  readonly coloredPreview?: boolean;
+  // Also renders a PNG of the lines as dashed or gray guides to trace over;
+  // omitted = off
+  readonly tracing?: TracingOptions;
+  // Draws a decorative frame around the page and shrinks the artwork to
+  // fit inside it; omitted = off
+  readonly frame?: FrameOptions;
+  // The photo the page was generated from; required for colorByNumber and
+  // coloredPreview
+  readonly sourceImage?: Buffer | string;
+  // Tracing settings for "svg" output
+  readonly vectorize?: Partial<VectorizeOptions>;
+  // Page size, DPI, margins, bleed and crop marks for "pdf" output
+  readonly print?: Partial<PrintLayout>;
   readonly outputWidth?: number;
   readonly outputHeight?: number;
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Encodes a side image (preview, worksheet) as PNG, resized like the page.
+ */
+async function encodePng(
+  image: RawImage,
+  outputWidth?: number,
+  outputHeight?: number,
+): Promise<Buffer> {
+  let pipeline = sharp(image.data, {
+    raw: {
+      width: image.width,
+      height: image.height,
+      channels: image.channels as 1 | 2 | 3 | 4,
+    },
+  });
+  if (outputWidth || outputHeight) {
+    pipeline = pipeline.resize(outputWidth, outputHeight, {
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+  }
+  return pipeline.png({ compressionLevel: 9 }).toBuffer();
 }
 
 /**
  * Post-processes a generated coloring page into clean, print-ready line art.
  *
- * Pipeline: grayscale → median filter (denoise) → threshold (binarize)
- *           → optional resize → output PNG/JPEG
+ * Pipeline: grayscale → median filter (denoise) → fixed, Otsu or adaptive
+ *           threshold (binarize) → optional speckle removal
+ *           → optional solid-fill hollowing
+ *           → optional line-weight normalization → optional gap closing
+ *           → colorability metrics → optional colored preview
+ *           → optional tracing worksheet
+ *           → optional color-by-number labels or dot-to-dot page
+ *           → optional decorative frame → optional resize → output
+ *           PNG/JPEG, trace to SVG, or lay out on a PDF page
+ *
+ * Metrics are measured on the binarized page before any resize. The
+ * preview and tracing worksheet get the same frame and resize as the page.
  */
 export async function postProcessColoringPage(
   imageInput: Buffer | string,
   options: PostProcessOptions = {},
-): Promise<Buffer> {
+): Promise<PostProcessResult> {
   const {
-    threshold = 128,
+    threshold,
     denoise = true,
     denoiseKernel = 3,
+    speckleArea,
     outputFormat = "png",
+    solidFills,
+    lineWeight,
+    gapClosing,
+    colorByNumber,
+    dotToDot,
+    subjectBox,
+    coloredPreview = false,
+    tracing,
+    frame,
+    sourceImage,
+    vectorize,
+    print,
     outputWidth,
     outputHeight,
+    signal,
   } = options;
 
   try {
-    let imageBuffer: Buffer;
-    if (typeof imageInput === "string") {
-      const response = await fetch(imageInput);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch image: ${response.status} ${response.statusText}`,
-        );
-      }
-      const arrayBuffer = await response.arrayBuffer();
-      imageBuffer = Buffer.from(arrayBuffer);
-    } else {
-      imageBuffer = imageInput;
+    throwIfCancelled(signal, "post-processing");
+    if (colorByNumber && dotToDot) {
+      throw new PipelineError(
+        "Color-by-number and dot-to-dot pages cannot be combined",
+        "post-processing",
+      );
     }
 
+    const imageBuffer = await loadImage(imageInput, signal);
+
     let pipeline = sharp(imageBuffer);
 
     // Convert to grayscale
@@ -55,7 +175,144 @@ export async function postProcessColoringPage(
     }
 
     // Threshold to pure black and white
-    pipeline = pipeline.threshold(threshold);
+    const { data, info } = await pipeline
+      .toColourspace("b-w")
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    throwIfCancelled(signal, "post-processing");
+    const thresholded = binarize(
+      { data, width: info.width, height: info.height, channels: info.channels },
+      threshold,
+    );
+    const thresholdReport = thresholded.report;
+
+    // The remaining passes and metrics work on the binarized pixels
+    let binarized: RawImage = thresholded.image;
+    // Output pixels per working pixel, for settings given in output pixels
+    const outputScale = Math.min(
+      1,
+      outputWidth ? outputWidth / binarized.width : 1,
+      outputHeight ? outputHeight / binarized.height : 1,
+    );
+
+    // Drop specks and pinholes by area
+    let speckleReport: SpeckleReport | undefined;
+    if (speckleArea) {
+      const cleaned = removeSpeckles(
+        binarized,
+        Math.max(1, Math.round(speckleArea / outputScale ** 2)),
+      );
+      binarized = cleaned.image;
+      speckleReport = cleaned.report;
+      throwIfCancelled(signal, "post-processing");
+    }
+
+    // Convert solid black areas to outlines before line widths are measured
+    let solidFillReport: SolidFillReport | undefined;
+    if (solidFills) {
+      const hollowed = hollowSolidFills(binarized, solidFills);
+      binarized = hollowed.image;
+      solidFillReport = hollowed.report;
+      throwIfCancelled(signal, "post-processing");
+    }
+
+    // Thicken or thin lines to the target width, measured in output pixels
+    let lineWeightReport: LineWeightReport | undefined;
+    if (lineWeight) {
+      const normalized = normalizeLineWeight(binarized, lineWeight, outputScale);
+      binarized = normalized.image;
+      lineWeightReport = normalized.report;
+      throwIfCancelled(signal, "post-processing");
+    }
+
+    // Bridge small breaks in outlines so regions are fillable
+    let gapClosingReport: GapClosingReport | undefined;
+    if (gapClosing) {
+      const closed = closeGaps(binarized, gapClosing);
+      binarized = closed.image;
+      gapClosingReport = closed.report;
+    }
+
+    const metrics = measureColorability(binarized);
+    throwIfCancelled(signal, "post-processing");
+
+    // Region colors are sampled from the original photo
+    let photo: Buffer | undefined;
+    if (colorByNumber || coloredPreview) {
+      if (!sourceImage) {
+        throw new PipelineError(
+          "Color-by-number and colored previews need the source photo to sample colors from",
+          "post-processing",
+        );
+      }
+      photo = await loadImage(sourceImage, signal);
+    }
+
+    // Flat-colored reference, rendered before any numbers are drawn
+    let previewImage: RawImage | undefined;
+    if (coloredPreview && photo) {
+      previewImage = await renderColoredPreview(binarized, photo);
+      throwIfCancelled(signal, "post-processing");
+    }
+
+    // Guide strokes for a tracing worksheet, from the same clean lines
+    let tracingImage: RawImage | undefined;
+    if (tracing) {
+      tracingImage = renderTracingGuides(binarized, tracing, outputScale);
+      throwIfCancelled(signal, "post-processing");
+    }
+
+    // Number the regions
+    let colorByNumberReport: ColorByNumberReport | undefined;
+    if (colorByNumber && photo) {
+      const numbered = await renderColorByNumber(
+        binarized,
+        photo,
+        colorByNumber,
+      );
+      binarized = numbered.image;
+      colorByNumberReport = numbered.report;
+      throwIfCancelled(signal, "post-processing");
+    }
+
+    // Turn the subject's outline into numbered dots
+    let dotToDotReport: DotToDotReport | undefined;
+    if (dotToDot) {
+      const dotted = renderDotToDot(
+        binarized,
+        subjectBox,
+        dotToDot,
+        outputScale,
+      );
+      binarized = dotted.image;
+      dotToDotReport = dotted.report;
+      throwIfCancelled(signal, "post-processing");
+    }
+
+    // Frame the finished page, and the side images the same way so they
+    // still line up with it
+    if (frame) {
+      binarized = await applyFrame(binarized, frame, outputScale);
+      if (previewImage) {
+        previewImage = await applyFrame(previewImage, frame, outputScale);
+      }
+      if (tracingImage) {
+        tracingImage = await applyFrame(tracingImage, frame, outputScale);
+      }
+      throwIfCancelled(signal, "post-processing");
+    }
+    const preview =
+      previewImage && (await encodePng(previewImage, outputWidth, outputHeight));
+    const tracingSheet =
+      tracingImage && (await encodePng(tracingImage, outputWidth, outputHeight));
+
+    pipeline = sharp(binarized.data, {
+      raw: {
+        width: binarized.width,
+        height: binarized.height,
+        channels: binarized.channels as 1 | 2 | 3 | 4,
+      },
+    });
 
     // Optional resize (maintains aspect ratio)
     if (outputWidth || outputHeight) {
@@ -66,15 +323,48 @@ export async function postProcessColoringPage(
     }
 
     // Output format
-    if (outputFormat === "png") {
-      pipeline = pipeline.png({ compressionLevel: 9, palette: true });
+    let output: Buffer;
+    if (outputFormat === "svg" || outputFormat === "pdf") {
+      const { data, info } = await pipeline
+        .toColourspace("b-w")
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      throwIfCancelled(signal, "post-processing");
+      const bitmap: RawImage = {
+        data,
+        width: info.width,
+        height: info.height,
+        channels: info.channels,
+      };
+      output =
+        outputFormat === "svg"
+          ? Buffer.from(vectorizeBitmap(bitmap, vectorize), "utf-8")
+          : await renderPrintPdf(bitmap, print);
     } else {
-      pipeline = pipeline.jpeg({ quality: 95 });
+      pipeline =
+        outputFormat === "png"
+          ? pipeline.png({ compressionLevel: 9, palette: true })
+          : pipeline.jpeg({ quality: 95 });
+      output = await pipeline.toBuffer();
     }
+    throwIfCancelled(signal, "post-processing");
 
-    return await pipeline.toBuffer();
+    return {
+      image: output,
+      metrics,
+      threshold: thresholdReport,
+      speckles: speckleReport,
+      solidFills: solidFillReport,
+      lineWeight: lineWeightReport,
+      gapClosing: gapClosingReport,
+      colorByNumber: colorByNumberReport,
+      dotToDot: dotToDotReport,
+      preview,
+      tracing: tracingSheet,
+    };
   } catch (error) {
     if (error instanceof PipelineError) throw error;
+    throwIfCancelled(signal, "post-processing");
     throw new PipelineError(
       `Post-processing failed: ${error instanceof Error ? error.message : String(error)}`,
       "post-processing",
@@ -0,0 +1,40 @@
+import {
+  type RawImage,
+  labelRegions,
+  toInkMask,
+} from "@/lib/pipeline/raster";
+import {
+  dominantRegionColors,
+  samplePhoto,
+} from "@/lib/pipeline/photo-colors";
+
+// Colored reference preview: the finished line art with every region
+// flat-filled in the dominant color of the photo beneath it, as a guide to
+// what the colored page could look like.
+
+/**
+ * Fills the regions of binarized line art (first channel is used; values
+ * below 128 are ink) with colors from `photo`, which is stretched to the
+ * line art's size. Returns an RGB image with the lines kept black.
+ */
+export async function renderColoredPreview(
+  lineArt: RawImage,
+  photo: Buffer,
+): Promise<RawImage> {
+  const { width, height } = lineArt;
+  const ink = toInkMask(lineArt);
+  const { labels, areas } = labelRegions(ink, width);
+  const colors = dominantRegionColors(
+    labels,
+    areas,
+    await samplePhoto(photo, width, height),
+  );
+
+  const data = new Uint8Array(width * height * 3);
+  for (let i = 0; i < labels.length; i++) {
+    // Ink pixels have label 0, whose color is black
+    const color = colors[labels[i]];
+    for (let j = 0; j < 3; j++) data[i * 3 + j] = Math.round(color[j]);
+  }
+  return { data, width, height, channels: 3 };
+}
@@ -0,0 +1,134 @@
+import {
+  type PipelineEvent,
+  type PipelineEventListener,
+  type PipelineStage,
+  PipelineError,
+} from "@/lib/pipeline/types";
+
+// Stage timing helpers and an in-memory pub/sub that relays pipeline events
+// from server actions to the /api/progress/[runId] event stream.
+// This module must only be imported in server-side code.
+
+// How long a finished channel keeps its events for late subscribers
+const CLOSED_CHANNEL_TTL_MS = 60_000;
+// Upper bound on buffered events per run (fal can be chatty with logs)
+const MAX_BUFFERED_EVENTS = 500;
+
+// ─── Stage Timing ───────────────────────────────────────────────────────────
+
+export interface StageOutcome<T> {
+  readonly value: T;
+  readonly durationMs: number;
+}
+
+/**
+ * Runs one pipeline stage, emitting stage-start before it and stage-end
+ * (with its duration) or stage-error after it.
+ */
+export async function runStage<T>(
+  stage: PipelineStage,
+  onEvent: PipelineEventListener | undefined,
+  operation: () => Promise<T>,
+): Promise<StageOutcome<T>> {
+  onEvent?.({ type: "stage-start", stage });
+  const start = performance.now();
+  try {
+    const value = await operation();
+    const durationMs = Math.round(performance.now() - start);
+    onEvent?.({ type: "stage-end", stage, durationMs });
+    return { value, durationMs };
+  } catch (error) {
+    onEvent?.({
+      type: "stage-error",
+      stage,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: error instanceof PipelineError && error.cancelled,
+    });
+    throw error;
+  }
+}
+
+// ─── Progress Channels ──────────────────────────────────────────────────────
+
+interface ProgressChannel {
+  events: PipelineEvent[];
+  listeners: Set<ProgressListener>;
+  closed: boolean;
+}
+
+export interface ProgressListener {
+  onEvent(event: PipelineEvent): void;
+  onClose(): void;
+}
+
+// Kept on globalThis so dev-server module reloads share one registry
+const globalForProgress = globalThis as typeof globalThis & {
+  progressChannels?: Map<string, ProgressChannel>;
+};
+
+const channels = (globalForProgress.progressChannels ??= new Map());
+
+function getChannel(runId: string): ProgressChannel {
+  let channel = channels.get(runId);
+  if (!channel) {
+    channel = { events: [], listeners: new Set(), closed: false };
+    channels.set(runId, channel);
+  }
+  return channel;
+}
+
+/**
+ * Returns an event listener that publishes to the run's channel, or
+ * undefined when there is no run id (nobody is watching).
+ */
+export function createProgressPublisher(
+  runId: string | undefined,
+): PipelineEventListener | undefined {
+  if (!runId) return undefined;
+  return (event) => publishProgress(runId, event);
+}
+
+export function publishProgress(runId: string, event: PipelineEvent): void {
+  const channel = getChannel(runId);
+  if (channel.closed) return;
+  channel.events.push(event);
+  if (channel.events.length > MAX_BUFFERED_EVENTS) channel.events.shift();
+  for (const listener of channel.listeners) listener.onEvent(event);
+}
+
+/**
+ * Marks the run as finished. Subscribers are closed; the buffered events
+ * stay available briefly for clients that connect late.
+ */
+export function closeProgress(runId: string): void {
+  const channel = getChannel(runId);
+  if (channel.closed) return;
+  channel.closed = true;
+  for (const listener of channel.listeners) listener.onClose();
+  channel.listeners.clear();
+  setTimeout(() => channels.delete(runId), CLOSED_CHANNEL_TTL_MS);
+}
+
+/**
+ * Replays the run's buffered events to `listener`, then forwards new ones
+ * until the run closes. Returns an unsubscribe function.
+ */
+export function subscribeProgress(
+  runId: string,
+  listener: ProgressListener,
+): () => void {
+  const channel = getChannel(runId);
+  for (const event of channel.events) listener.onEvent(event);
+  if (channel.closed) {
+    listener.onClose();
+    return () => {};
+  }
+  channel.listeners.add(listener);
+  return () => {
+    channel.listeners.delete(listener);
+    // Drop channels that were only ever opened by a subscriber
+    if (channel.listeners.size === 0 && channel.events.length === 0) {
+      channels.delete(runId);
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import type {
+  AnalysisProvider,
+  GenerationProvider,
+} from "@/lib/pipeline/types";
+import { falProvider } from "@/lib/pipeline/fal-client";
+import { localProvider } from "@/lib/pipeline/local-provider";
+import { claudeAnalysisProvider } from "@/lib/pipeline/analyzer";
+import {
+  DEFAULT_ANALYSIS_FIXTURES_DIR,
+  createRecordingProvider,
+  createReplayProvider,
+} from "@/lib/pipeline/analysis-fixtures";
+
+// This module must only be imported in server-side code.
+
+const GENERATION_PROVIDERS: Record<string, GenerationProvider> = {
+  fal: falProvider,
+  local: localProvider,
+};
+
+/**
+ * Returns the image generation provider selected by GENERATION_PROVIDER
+ * ("fal" by default, "local" for offline runs).
+ */
+export function getGenerationProvider(): GenerationProvider {
+  const name = process.env.GENERATION_PROVIDER?.trim() || "fal";
+  const provider = GENERATION_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown GENERATION_PROVIDER "${name}". Expected one of: ${Object.keys(GENERATION_PROVIDERS).join(", ")}`,
+    );
+  }
+  return provider;
+}
+
+/**
+ * Returns the analysis provider selected by ANALYSIS_PROVIDER:
+ * "claude" (default) calls the API, "record" calls the API and stores each
+ * result as a fixture, "replay" serves fixtures only. Fixtures live in
+ * ANALYSIS_FIXTURES_DIR (default: fixtures/analysis).
+ */
+export function getAnalysisProvider(): AnalysisProvider {
+  const name = process.env.ANALYSIS_PROVIDER?.trim() || "claude";
+  const fixturesDir =
+    process.env.ANALYSIS_FIXTURES_DIR?.trim() || DEFAULT_ANALYSIS_FIXTURES_DIR;
+
+  switch (name) {
+    case "claude":
+      return claudeAnalysisProvider;
+    case "record":
+      return createRecordingProvider(claudeAnalysisProvider, fixturesDir);
+    case "replay":
+      return createReplayProvider(fixturesDir);
+    default:
+      throw new Error(
+        `Unknown ANALYSIS_PROVIDER "${name}". Expected one of: claude, record, replay`,
+      );
+  }
+}
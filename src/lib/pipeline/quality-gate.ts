@@ -0,0 +1,102 @@
+import type {
+  ColorabilityMetrics,
+  ComplexityLevel,
+  QualityGateAttempt,
+  QualityGateOptions,
+  RegionCorrection,
+} from "@/lib/pipeline/types";
+import { getRegionTarget } from "@/lib/prompts/generation";
+
+// Complexity-conformance gate: a generated page passes when its measured
+// region count falls inside the target band of the requested complexity.
+// Rejected pages are regenerated by runPipeline.
+
+export const DEFAULT_QUALITY_GATE_OPTIONS: QualityGateOptions = {
+  maxAttempts: 3,
+  retryStrategy: "both",
+};
+
+export function resolveQualityGateOptions(
+  overrides?: Partial<QualityGateOptions>,
+): QualityGateOptions {
+  return { ...DEFAULT_QUALITY_GATE_OPTIONS, ...overrides };
+}
+
+export interface QualityGateVerdict {
+  // Regions short of (negative) or beyond (positive) the target band;
+  // 0 = passed
+  readonly deviation: number;
+  readonly correction?: RegionCorrection;
+  readonly reason?: string;
+}
+
+/**
+ * Checks a page's region count against the target for `complexity`.
+ */
+export function evaluateQualityGate(
+  complexity: ComplexityLevel,
+  metrics: ColorabilityMetrics,
+): QualityGateVerdict {
+  const { min, max } = getRegionTarget(complexity);
+  const count = metrics.regionCount;
+  const band = max === undefined ? `${min}+` : `${min}-${max}`;
+
+  if (count < min) {
+    return {
+      deviation: count - min,
+      correction: "add-detail",
+      reason: `${count} regions, below the ${band} target for ${complexity}`,
+    };
+  }
+  if (max !== undefined && count > max) {
+    return {
+      deviation: count - max,
+      correction: "simplify",
+      reason: `${count} regions, above the ${band} target for ${complexity}`,
+    };
+  }
+  return { deviation: 0 };
+}
+
+// Regeneration seeds stay below 2^31 so every provider accepts them
+const SEED_RANGE = 2 ** 31;
+
+/**
+ * Base seed regenerations are stepped from: the caller's fixed seed, or a
+ * random one drawn once per run. Providers may derive their own seed from
+ * the prompt (the local one does), so leaving it unset would resend the
+ * same request.
+ */
+export function resolveBaseSeed(seed: number | undefined): number {
+  return seed ?? Math.floor(Math.random() * SEED_RANGE);
+}
+
+/**
+ * Seed for a regeneration: the base seed stepped by the attempt number, so
+ * each retry differs and can be reproduced from its recorded seed.
+ */
+export function nextAttemptSeed(baseSeed: number, attempt: number): number {
+  return (baseSeed + attempt) % SEED_RANGE;
+}
+
+/**
+ * Index of the attempt to return when none passed: the one closest to the
+ * target band, preferring the earliest on ties.
+ */
+export function selectClosestAttempt(
+  complexity: ComplexityLevel,
+  attempts: readonly QualityGateAttempt[],
+): number {
+  let best = 0;
+  let bestDeviation = Infinity;
+  attempts.forEach((attempt, index) => {
+    const deviation = Math.abs(
+      evaluateQualityGate(complexity, attempt.metrics).deviation,
+    );
+    if (deviation < bestDeviation) {
+      best = index;
+      bestDeviation = deviation;
+    }
+  });
+  return best;
+}
@@ -0,0 +1,565 @@
+import type {
+  GapClosingOptions,
+  GapClosingReport,
+  SpeckleReport,
+} from "@/lib/pipeline/types";
+
+// Pixel-level analysis and passes over binarized line art.
+//
+// Speckle removal: flip ink specks and enclosed paper pinholes below an
+// area, by connected component rather than a fixed filter window.
+//
+// Gap closing: thin the ink to a skeleton → find line ends → bridge each
+// end to the nearest *other* line straight ahead of it, if the break is
+// small. Only bridges are drawn, so narrow regions are never filled in.
+
+export interface RawImage {
+  readonly data: Uint8Array;
+  readonly width: number;
+  readonly height: number;
+  readonly channels: number;
+}
+
+export const DEFAULT_GAP_CLOSING_OPTIONS: GapClosingOptions = {
+  maxGap: 6,
+  maxAngle: 45,
+};
+
+// Grayscale values below this count as ink
+export const INK_LEVEL = 128;
+
+// Paper regions smaller than this (px) are too small to color and are not
+// counted as regions
+export const MIN_REGION_AREA = 16;
+
+// 8-neighbour offsets, clockwise from north (order matters for thinning)
+const NX = [0, 1, 1, 1, 0, -1, -1, -1];
+const NY = [-1, -1, 0, 1, 1, 1, 0, -1];
+
+export function resolveGapClosingOptions(
+  overrides?: Partial<GapClosingOptions>,
+): GapClosingOptions {
+  return { ...DEFAULT_GAP_CLOSING_OPTIONS, ...overrides };
+}
+
+// ─── Masks ──────────────────────────────────────────────────────────────────
+
+/**
+ * Ink mask of a raw grayscale image (first channel is used): 1 = ink.
+ */
+export function toInkMask(image: RawImage): Uint8Array {
+  const { data, width, height, channels } = image;
+  const ink = new Uint8Array(width * height);
+  for (let i = 0; i < ink.length; i++) {
+    ink[i] = data[i * channels] < INK_LEVEL ? 1 : 0;
+  }
+  return ink;
+}
+
+/**
+ * Single-channel black-on-white image of an ink mask.
+ */
+export function fromInkMask(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+): RawImage {
+  const data = new Uint8Array(ink.length);
+  for (let i = 0; i < ink.length; i++) data[i] = ink[i] ? 0 : 255;
+  return { data, width, height, channels: 1 };
+}
+
+// ─── Regions ────────────────────────────────────────────────────────────────
+
+/**
+ * Labels 4-connected paper regions. Returns per-pixel labels (0 = ink,
+ * 1..n = region) and the area of each region, indexed by label.
+ */
+export function labelRegions(
+  ink: Uint8Array,
+  width: number,
+): { labels: Int32Array; areas: number[] } {
+  const labels = new Int32Array(ink.length);
+  const stack = new Int32Array(ink.length);
+  const areas = [0];
+
+  for (let start = 0; start < ink.length; start++) {
+    if (ink[start] || labels[start]) continue;
+
+    const label = areas.length;
+    let area = 0;
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = label;
+    while (top > 0) {
+      const i = stack[--top];
+      area++;
+      const x = i % width;
+      if (x > 0 && !ink[i - 1] && !labels[i - 1]) {
+        labels[i - 1] = label;
+        stack[top++] = i - 1;
+      }
+      if (x < width - 1 && !ink[i + 1] && !labels[i + 1]) {
+        labels[i + 1] = label;
+        stack[top++] = i + 1;
+      }
+      if (i >= width && !ink[i - width] && !labels[i - width]) {
+        labels[i - width] = label;
+        stack[top++] = i - width;
+      }
+      if (i < ink.length - width && !ink[i + width] && !labels[i + width]) {
+        labels[i + width] = label;
+        stack[top++] = i + width;
+      }
+    }
+    areas.push(area);
+  }
+  return { labels, areas };
+}
+
+/**
+ * Number of paper regions a bucket fill would treat separately, ignoring
+ * regions smaller than `minArea` pixels.
+ */
+export function countRegions(
+  ink: Uint8Array,
+  width: number,
+  minArea = MIN_REGION_AREA,
+): number {
+  const { areas } = labelRegions(ink, width);
+  return areas.filter((area, label) => label > 0 && area >= minArea).length;
+}
+
+/**
+ * Flips connected regions of `value` smaller than `minArea` pixels in
+ * place and returns how many were flipped. Ink regions use 8-connectivity
+ * so thin diagonal lines stay whole; paper regions use 4-connectivity, and
+ * those touching the border are kept.
+ */
+export function removeSmallRegions(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+  value: 0 | 1,
+  minArea: number,
+): number {
+  const visited = new Uint8Array(ink.length);
+  const stack = new Int32Array(ink.length);
+  const region: number[] = [];
+  const eightWay = value === 1;
+  let removed = 0;
+
+  for (let start = 0; start < ink.length; start++) {
+    if (visited[start] || ink[start] !== value) continue;
+
+    let top = 0;
+    let touchesBorder = false;
+    region.length = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    while (top > 0) {
+      const i = stack[--top];
+      region.push(i);
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+        touchesBorder = true;
+      }
+      for (let oy = -1; oy <= 1; oy++) {
+        for (let ox = -1; ox <= 1; ox++) {
+          if (ox === 0 && oy === 0) continue;
+          if (!eightWay && ox !== 0 && oy !== 0) continue;
+          const nx = x + ox;
+          const ny = y + oy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (!visited[n] && ink[n] === value) {
+            visited[n] = 1;
+            stack[top++] = n;
+          }
+        }
+      }
+    }
+
+    if (region.length < minArea && (eightWay || !touchesBorder)) {
+      for (const i of region) ink[i] = value === 1 ? 0 : 1;
+      removed++;
+    }
+  }
+  return removed;
+}
+
+// ─── Skeleton ───────────────────────────────────────────────────────────────
+
+/**
+ * Zhang–Suen thinning: reduces every stroke to a 1px-wide centre line.
+ */
+export function skeletonize(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+): Uint8Array {
+  const skeleton = ink.slice();
+  const at = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height
+      ? skeleton[y * width + x]
+      : 0;
+
+  let points: number[] = [];
+  for (let i = 0; i < ink.length; i++) if (ink[i]) points.push(i);
+
+  const removed: number[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const pass of [0, 1]) {
+      removed.length = 0;
+      for (const i of points) {
+        const x = i % width;
+        const y = (i - x) / width;
+        const n = NX.map((dx, k) => at(x + dx, y + NY[k]));
+        const neighbours = n.reduce((sum, v) => sum + v, 0);
+        if (neighbours < 2 || neighbours > 6) continue;
+        let transitions = 0;
+        for (let k = 0; k < 8; k++) {
+          if (!n[k] && n[(k + 1) % 8]) transitions++;
+        }
+        if (transitions !== 1) continue;
+        // n[0]=N, n[2]=E, n[4]=S, n[6]=W
+        if (pass === 0) {
+          if (n[0] && n[2] && n[4]) continue;
+          if (n[2] && n[4] && n[6]) continue;
+        } else {
+          if (n[0] && n[2] && n[6]) continue;
+          if (n[0] && n[4] && n[6]) continue;
+        }
+        removed.push(i);
+      }
+      for (const i of removed) skeleton[i] = 0;
+      if (removed.length > 0) changed = true;
+    }
+    points = points.filter((i) => skeleton[i]);
+  }
+  return skeleton;
+}
+
+function skeletonNeighbours(
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+  i: number,
+): number[] {
+  const x = i % width;
+  const y = (i - x) / width;
+  const result: number[] = [];
+  for (let k = 0; k < 8; k++) {
+    const nx = x + NX[k];
+    const ny = y + NY[k];
+    if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+    const n = ny * width + nx;
+    if (skeleton[n]) result.push(n);
+  }
+  return result;
+}
+
+/**
+ * Follows the skeleton back from a line end for up to `steps` pixels.
+ * Returns null if a junction comes first, i.e. the end belongs to a short
+ * spur rather than a line.
+ */
+function walkBack(
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+  end: number,
+  steps: number,
+): number | null {
+  let previous = -1;
+  let current = end;
+  for (let step = 0; step < steps; step++) {
+    const next = skeletonNeighbours(skeleton, width, height, current).filter(
+      (n) => n !== previous,
+    );
+    if (next.length === 0) return current;
+    if (next.length > 1 && step > 0) return null;
+    previous = current;
+    current = next[0];
+  }
+  return current;
+}
+
+/**
+ * Chamfer distance from every ink pixel to the nearest paper pixel (0 on
+ * paper; the area outside the image counts as paper). On a skeleton pixel
+ * this is roughly half the stroke width.
+ */
+export function distanceToPaper(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+): Float32Array {
+  const distance = new Float32Array(ink.length);
+  const at = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height ? distance[y * width + x] : 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!ink[i]) continue;
+      distance[i] = Math.min(
+        at(x - 1, y) + 1,
+        at(x, y - 1) + 1,
+        at(x - 1, y - 1) + Math.SQRT2,
+        at(x + 1, y - 1) + Math.SQRT2,
+      );
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (!ink[i]) continue;
+      distance[i] = Math.min(
+        distance[i],
+        at(x + 1, y) + 1,
+        at(x, y + 1) + 1,
+        at(x + 1, y + 1) + Math.SQRT2,
+        at(x - 1, y + 1) + Math.SQRT2,
+      );
+    }
+  }
+  return distance;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Median stroke width (px) along the centre lines; 0 without ink.
+ */
+export function medianStrokeWidth(
+  ink: Uint8Array,
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+): number {
+  // A centre pixel d from the nearest paper pixel sits in a 2d - 1 wide stroke
+  const distance = distanceToPaper(ink, width, height);
+  const widths: number[] = [];
+  for (let i = 0; i < skeleton.length; i++) {
+    if (skeleton[i]) widths.push(2 * distance[i] - 1);
+  }
+  return median(widths);
+}
+
+export interface LineEnd {
+  // Pixel index of the skeleton end point
+  readonly index: number;
+  // Half the stroke width at the end
+  readonly halfWidth: number;
+  // Unit vector pointing out of the line
+  readonly direction: readonly [number, number];
+}
+
+/**
+ * Ends of lines that stop in open paper. Ends of short spurs that thinning
+ * leaves on corners and thick strokes are not counted.
+ */
+export function findLineEnds(
+  ink: Uint8Array,
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+): LineEnd[] {
+  const distance = distanceToPaper(ink, width, height);
+  const ends: LineEnd[] = [];
+
+  for (let end = 0; end < skeleton.length; end++) {
+    if (!skeleton[end]) continue;
+    if (skeletonNeighbours(skeleton, width, height, end).length !== 1) continue;
+
+    const halfWidth = distance[end];
+    // Look far enough back to get past the rounded line end
+    const back = walkBack(
+      skeleton,
+      width,
+      height,
+      end,
+      Math.ceil(2 * halfWidth) + 3,
+    );
+    if (back === null) continue;
+
+    const ex = end % width;
+    const ey = (end - ex) / width;
+    const bx = back % width;
+    const by = (back - bx) / width;
+    const length = Math.hypot(ex - bx, ey - by);
+    if (length === 0) continue;
+    ends.push({
+      index: end,
+      halfWidth,
+      direction: [(ex - bx) / length, (ey - by) / length],
+    });
+  }
+  return ends;
+}
+
+// ─── Gap Closing ────────────────────────────────────────────────────────────
+
+/**
+ * Ink pixels reachable from `start` through ink within `budget` steps —
+ * the line the end belongs to, as opposed to lines it could bridge to.
+ */
+function nearbyStroke(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+  start: number,
+  budget: number,
+): Set<number> {
+  const seen = new Set([start]);
+  let frontier = [start];
+  for (let step = 0; step < budget && frontier.length > 0; step++) {
+    const next: number[] = [];
+    for (const i of frontier) {
+      const x = i % width;
+      const y = (i - x) / width;
+      for (let k = 0; k < 8; k++) {
+        const nx = x + NX[k];
+        const ny = y + NY[k];
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (ink[n] && !seen.has(n)) {
+          seen.add(n);
+          next.push(n);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return seen;
+}
+
+function stampLine(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+  from: readonly [number, number],
+  to: readonly [number, number],
+  radius: number,
+): void {
+  const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+  const steps = Math.max(1, Math.ceil(length * 2));
+  const reach = Math.ceil(radius);
+  for (let s = 0; s <= steps; s++) {
+    const px = from[0] + ((to[0] - from[0]) * s) / steps;
+    const py = from[1] + ((to[1] - from[1]) * s) / steps;
+    for (let dy = -reach; dy <= reach; dy++) {
+      for (let dx = -reach; dx <= reach; dx++) {
+        if (dx * dx + dy * dy > radius * radius) continue;
+        const x = Math.round(px + dx);
+        const y = Math.round(py + dy);
+        if (x < 0 || y < 0 || x >= width || y >= height) continue;
+        ink[y * width + x] = 1;
+      }
+    }
+  }
+}
+
+/**
+ * Bridges breaks of up to `maxGap` pixels in place. Returns the number of
+ * bridges drawn.
+ */
+function bridgeGaps(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+  { maxGap, maxAngle }: GapClosingOptions,
+): number {
+  const skeleton = skeletonize(ink, width, height);
+  const ends = findLineEnds(ink, skeleton, width, height);
+  const minCos = Math.cos((maxAngle * Math.PI) / 180);
+  let bridges = 0;
+
+  for (const {
+    index: end,
+    halfWidth,
+    direction: [ux, uy],
+  } of ends) {
+    const ex = end % width;
+    const ey = (end - ex) / width;
+    const reach = Math.ceil(maxGap + halfWidth);
+    const own = nearbyStroke(ink, width, height, end, 3 * reach);
+
+    let target: [number, number] | null = null;
+    let bestDistance = Infinity;
+    for (let dy = -reach; dy <= reach; dy++) {
+      for (let dx = -reach; dx <= reach; dx++) {
+        const x = ex + dx;
+        const y = ey + dy;
+        if (x < 0 || y < 0 || x >= width || y >= height) continue;
+        const i = y * width + x;
+        if (!ink[i] || own.has(i)) continue;
+        const distance = Math.hypot(dx, dy);
+        if (distance - halfWidth > maxGap || distance >= bestDistance) continue;
+        if ((dx * ux + dy * uy) / distance < minCos) continue;
+        bestDistance = distance;
+        target = [x, y];
+      }
+    }
+    if (!target) continue;
+
+    stampLine(ink, width, height, [ex, ey], target, Math.max(1, halfWidth));
+    bridges++;
+  }
+  return bridges;
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Closes small breaks in the outlines of a raw grayscale image (first
+ * channel is used; values below 128 are ink) so bucket fills stay inside
+ * their region. Returns a single-channel image and region counts before and
+ * after.
+ */
+export function closeGaps(
+  image: RawImage,
+  options?: Partial<GapClosingOptions>,
+): { image: RawImage; report: GapClosingReport } {
+  const resolved = resolveGapClosingOptions(options);
+  const { width, height } = image;
+  const ink = toInkMask(image);
+
+  const regionsBefore = countRegions(ink, width);
+  const gapsClosed = bridgeGaps(ink, width, height, resolved);
+  const regionsAfter = countRegions(ink, width);
+
+  return {
+    image: fromInkMask(ink, width, height),
+    report: { gapsClosed, regionsBefore, regionsAfter },
+  };
+}
+
+/**
+ * Removes ink specks and fills paper pinholes smaller than `minArea` pixels
+ * in a raw grayscale image (first channel is used; values below 128 are
+ * ink). Returns a single-channel image and how many of each were removed.
+ */
+export function removeSpeckles(
+  image: RawImage,
+  minArea: number,
+): { image: RawImage; report: SpeckleReport } {
+  const { width, height } = image;
+  const ink = toInkMask(image);
+  const specksRemoved = removeSmallRegions(ink, width, height, 1, minArea);
+  const pinholesFilled = removeSmallRegions(ink, width, height, 0, minArea);
+  return {
+    image: fromInkMask(ink, width, height),
+    report: { specksRemoved, pinholesFilled },
+  };
+}
@@ -0,0 +1,226 @@
+import {
+  type PipelineEventListener,
+  type PipelineStage,
+  type RetryPolicy,
+  PipelineError,
+} from "@/lib/pipeline/types";
+import {
+  createCancelledError,
+  sleep,
+  throwIfCancelled,
+} from "@/lib/pipeline/cancellation";
+
+// ─── Defaults ───────────────────────────────────────────────────────────────
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1_000,
+  maxDelayMs: 15_000,
+  backoffFactor: 2,
+  jitter: 0.5,
+  timeoutMs: 180_000,
+};
+
+// Request timeout, conflict, too early, rate limit and gateway errors.
+// Any other 5xx is treated as retryable as well.
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429]);
+
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+export function resolveRetryPolicy(
+  overrides?: Partial<RetryPolicy>,
+): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+// ─── Classification ─────────────────────────────────────────────────────────
+
+export class TimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+function getStatus(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+  const status = (error as { status?: unknown }).status;
+  return typeof status === "number" ? status : undefined;
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  if (typeof code === "string") return code;
+  return cause !== error ? getErrorCode(cause) : undefined;
+}
+
+/**
+ * Default retryable-error classification: timeouts, 408/409/425/429, any
+ * 5xx, and low-level network failures. Validation errors raised as
+ * PipelineError are permanent.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof PipelineError) return false;
+
+  const status = getStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUS_CODES.has(status) || status >= 500;
+  }
+
+  const code = getErrorCode(error);
+  if (code && RETRYABLE_NETWORK_CODES.has(code)) return true;
+
+  // undici reports connection failures as a bare "fetch failed" TypeError
+  return error instanceof TypeError && error.message === "fetch failed";
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const status = getStatus(error);
+  return status !== undefined && !message.includes(String(status))
+    ? `HTTP ${status}: ${message}`
+    : message;
+}
+
+// ─── Backoff ────────────────────────────────────────────────────────────────
+
+/**
+ * Exponential backoff with jitter for the delay after `attempt` failed.
+ */
+export function computeBackoffDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * policy.backoffFactor ** (attempt - 1),
+  );
+  return Math.round(base * (1 - policy.jitter * random()));
+}
+
+/**
+ * Runs one attempt with its own deadline. The signal handed to `operation`
+ * fires when either the deadline expires or the caller's signal aborts.
+ */
+async function runWithDeadline<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  callerSignal: AbortSignal | undefined,
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onCallerAbort: (() => void) | undefined;
+
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+    onCallerAbort = () => {
+      controller.abort(callerSignal?.reason);
+      reject(callerSignal?.reason);
+    };
+    callerSignal?.addEventListener("abort", onCallerAbort, { once: true });
+  });
+
+  try {
+    // Race so a client that ignores the abort signal still cannot hang us
+    return await Promise.race([operation(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+    if (onCallerAbort) {
+      callerSignal?.removeEventListener("abort", onCallerAbort);
+    }
+  }
+}
+
+// ─── withRetry ──────────────────────────────────────────────────────────────
+
+interface WithRetryOptions {
+  // Human-readable call name used in logs and error messages
+  readonly label: string;
+  readonly stage: PipelineStage;
+  readonly policy?: Partial<RetryPolicy>;
+  // Caller cancellation; aborts the current attempt and stops retrying
+  readonly signal?: AbortSignal;
+  // Overrides the default classification (e.g. for SDK-specific errors)
+  readonly isRetryable?: (error: unknown) => boolean;
+  // Receives a log event for every retried attempt
+  readonly onEvent?: PipelineEventListener;
+}
+
+export interface RetryOutcome<T> {
+  readonly value: T;
+  readonly attempts: number;
+}
+
+/**
+ * Runs `operation` under the retry policy. Each attempt receives an
+ * AbortSignal that fires when its per-attempt deadline expires or the
+ * caller cancels.
+ *
+ * On final failure throws a PipelineError carrying the attempt count and
+ * whether the last error was transient (retryable) or permanent. If
+ * `options.signal` aborts, throws a cancelled PipelineError immediately.
+ */
+export async function withRetry<T>(
+  operation: (signal: AbortSignal, attempt: number) => Promise<T>,
+  options: WithRetryOptions,
+): Promise<RetryOutcome<T>> {
+  const policy = resolveRetryPolicy(options.policy);
+  const isRetryable = options.isRetryable ?? isRetryableError;
+  const { signal, stage } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal, stage);
+    try {
+      const value = await runWithDeadline(
+        (attemptSignal) => operation(attemptSignal, attempt),
+        policy.timeoutMs,
+        signal,
+      );
+      return { value, attempts: attempt };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw createCancelledError(stage, signal.reason, attempt);
+      }
+
+      const transient = isRetryable(error);
+      if (!transient || attempt >= policy.maxAttempts) {
+        const details = { attempts: attempt, transient };
+        if (error instanceof PipelineError) {
+          throw new PipelineError(
+            error.message,
+            error.stage,
+            error.cause,
+            details,
+          );
+        }
+        throw new PipelineError(
+          `${options.label} failed after ${attempt} attempt${attempt === 1 ? "" : "s"}: ${describeError(error)}`,
+          stage,
+          error,
+          details,
+        );
+      }
+
+      const delayMs = computeBackoffDelay(policy, attempt);
+      const message = `${options.label} attempt ${attempt}/${policy.maxAttempts} failed (${describeError(error)}), retrying in ${delayMs}ms`;
+      console.warn(`[retry] ${message}`);
+      options.onEvent?.({ type: "log", stage, message });
+      await sleep(delayMs, signal, stage);
+    }
+  }
+}
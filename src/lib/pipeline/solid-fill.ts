@@ -0,0 +1,199 @@
+import type {
+  ComplexityLevel,
+  SolidFillOptions,
+  SolidFillReport,
+} from "@/lib/pipeline/types";
+import { getStrokeWidthTarget } from "@/lib/prompts/generation";
+import {
+  type RawImage,
+  distanceToPaper,
+  fromInkMask,
+  toInkMask,
+} from "@/lib/pipeline/raster";
+
+// Solid-fill hollowing: ink at least `minThickness` deep marks a fill; the
+// fill is recovered by growing those cores back out to the ink's edge (so
+// lines attached to it are untouched), and everything deeper than the
+// outline width is cleared, optionally with hatching drawn in its place.
+
+const DEFAULT_MIN_THICKNESS = 16;
+const DEFAULT_MIN_AREA = 1000;
+const DEFAULT_HATCH_SPACING = 12;
+
+/**
+ * Fills in the outline width from the complexity level's stroke-width band
+ * and the pattern from the level itself (hatching only for adult pages).
+ */
+export function resolveSolidFillOptions(
+  complexity: ComplexityLevel,
+  overrides?: Partial<SolidFillOptions>,
+): SolidFillOptions {
+  const { min, max } = getStrokeWidthTarget(complexity);
+  return {
+    minThickness: DEFAULT_MIN_THICKNESS,
+    minArea: DEFAULT_MIN_AREA,
+    outlineWidth: Math.round((min + max) / 2),
+    pattern: complexity === "adult" ? "hatch" : "none",
+    hatchSpacing: DEFAULT_HATCH_SPACING,
+    ...overrides,
+  };
+}
+
+// ─── Fill Detection ─────────────────────────────────────────────────────────
+
+/**
+ * Chamfer distance from every pixel to the nearest seed pixel (Infinity
+ * when there are none).
+ */
+function distanceToSeeds(
+  seeds: Uint8Array,
+  width: number,
+  height: number,
+): Float32Array {
+  const distance = new Float32Array(seeds.length);
+  for (let i = 0; i < seeds.length; i++) distance[i] = seeds[i] ? 0 : Infinity;
+  const at = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height
+      ? distance[y * width + x]
+      : Infinity;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      distance[i] = Math.min(
+        distance[i],
+        at(x - 1, y) + 1,
+        at(x, y - 1) + 1,
+        at(x - 1, y - 1) + Math.SQRT2,
+        at(x + 1, y - 1) + Math.SQRT2,
+      );
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      distance[i] = Math.min(
+        distance[i],
+        at(x + 1, y) + 1,
+        at(x, y + 1) + 1,
+        at(x + 1, y + 1) + Math.SQRT2,
+        at(x - 1, y + 1) + Math.SQRT2,
+      );
+    }
+  }
+  return distance;
+}
+
+/**
+ * 8-connected components of a mask, as lists of pixel indices.
+ */
+function components(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+): number[][] {
+  const seen = new Uint8Array(mask.length);
+  const result: number[][] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    seen[start] = 1;
+    const pixels = [start];
+    for (let k = 0; k < pixels.length; k++) {
+      const i = pixels[k];
+      const x = i % width;
+      const y = (i - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (mask[n] && !seen[n]) {
+            seen[n] = 1;
+            pixels.push(n);
+          }
+        }
+      }
+    }
+    result.push(pixels);
+  }
+  return result;
+}
+
+function isHatchLine(
+  x: number,
+  y: number,
+  options: SolidFillOptions,
+): boolean {
+  const { pattern, hatchSpacing, outlineWidth } = options;
+  // Diagonal bands; dividing by √2 keeps them about outlineWidth wide
+  const band = Math.max(1, Math.round(outlineWidth * Math.SQRT2));
+  const mod = (value: number) =>
+    ((value % hatchSpacing) + hatchSpacing) % hatchSpacing;
+  if (pattern === "none") return false;
+  if (mod(x + y) < band) return true;
+  return pattern === "crosshatch" && mod(x - y) < band;
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Turns solid black areas of a raw grayscale image (first channel is used;
+ * values below 128 are ink) into outlines. Returns a single-channel image
+ * and how much ink was converted.
+ */
+export function hollowSolidFills(
+  image: RawImage,
+  options: SolidFillOptions,
+): { image: RawImage; report: SolidFillReport } {
+  const { width, height } = image;
+  const ink = toInkMask(image);
+  const depth = distanceToPaper(ink, width, height);
+  const radius = options.minThickness / 2;
+
+  // Cores of fills: ink more than half the minimum thickness from paper
+  const cores = new Uint8Array(ink.length);
+  let hasCores = false;
+  for (let i = 0; i < ink.length; i++) {
+    if (depth[i] > radius) {
+      cores[i] = 1;
+      hasCores = true;
+    }
+  }
+  if (!hasCores) {
+    return {
+      image,
+      report: { fillsHollowed: 0, areaConverted: 0, areaRatio: 0 },
+    };
+  }
+
+  // Grow the cores back out to the ink's edge
+  const reach = distanceToSeeds(cores, width, height);
+  const fills = new Uint8Array(ink.length);
+  for (let i = 0; i < ink.length; i++) {
+    if (ink[i] && reach[i] <= radius + 1) fills[i] = 1;
+  }
+
+  let fillsHollowed = 0;
+  let areaConverted = 0;
+  for (const fill of components(fills, width, height)) {
+    if (fill.length < options.minArea) continue;
+    fillsHollowed++;
+    for (const i of fill) {
+      if (depth[i] <= options.outlineWidth) continue;
+      areaConverted++;
+      const x = i % width;
+      ink[i] = isHatchLine(x, (i - x) / width, options) ? 1 : 0;
+    }
+  }
+
+  return {
+    image: fillsHollowed > 0 ? fromInkMask(ink, width, height) : image,
+    report: {
+      fillsHollowed,
+      areaConverted,
+      areaRatio:
+        Math.round((areaConverted / (width * height)) * 10000) / 10000,
+    },
+  };
+}
@@ -0,0 +1,215 @@
+import type {
+  ThresholdMode,
+  ThresholdOptions,
+  ThresholdReport,
+} from "@/lib/pipeline/types";
+import type { RawImage } from "@/lib/pipeline/raster";
+
+// Binarization of the grayscale page into black ink on white paper.
+//
+// fixed:    one gray level for the whole page
+// otsu:     the level that best separates the histogram into ink and paper,
+//           so faint gray line work and dark renders both split cleanly
+// adaptive: each pixel against the mean of its neighbourhood, for pages with
+//           shading or uneven backgrounds (large solid fills come out as
+//           thick outlines)
+// auto:     otsu when the histogram is clearly two-toned and the split leaves
+//           mostly paper, otherwise adaptive
+
+export const DEFAULT_THRESHOLD_OPTIONS: ThresholdOptions = {
+  mode: "auto",
+  level: 128,
+  windowSize: 31,
+  offset: 10,
+};
+
+// Share of the gray-level variance Otsu's split must explain for "auto" to
+// trust a single global level
+const AUTO_SEPARABILITY = 0.8;
+
+// Line art is mostly paper; an Otsu split that inks more of the page than
+// this has caught dark fills or shading, so "auto" goes adaptive instead
+const AUTO_MAX_INK_RATIO = 0.3;
+
+export function resolveThresholdOptions(
+  overrides?: Partial<ThresholdOptions>,
+): ThresholdOptions {
+  return { ...DEFAULT_THRESHOLD_OPTIONS, ...overrides };
+}
+
+// ─── Histogram ──────────────────────────────────────────────────────────────
+
+interface OtsuSplit {
+  readonly level: number;
+  readonly separability: number;
+  readonly inkRatio: number;
+}
+
+function histogram(image: RawImage): Uint32Array {
+  const { data, width, height, channels } = image;
+  const counts = new Uint32Array(256);
+  for (let i = 0; i < width * height; i++) counts[data[i * channels]]++;
+  return counts;
+}
+
+/**
+ * Otsu's level for a gray-level histogram, its separability (the share of
+ * the total variance explained by splitting at that level, 0-1) and the
+ * share of pixels it makes ink.
+ */
+function otsuThreshold(counts: Uint32Array): OtsuSplit {
+  let total = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  for (let v = 0; v < 256; v++) {
+    total += counts[v];
+    sum += v * counts[v];
+    sumSquares += v * v * counts[v];
+  }
+  if (total === 0) {
+    return {
+      level: DEFAULT_THRESHOLD_OPTIONS.level,
+      separability: 0,
+      inkRatio: 0,
+    };
+  }
+  const mean = sum / total;
+  const variance = sumSquares / total - mean * mean;
+
+  // Ink is every level below `level`, paper the rest
+  // Levels in an empty stretch of the histogram split identically; the
+  // middle of the tied run is used
+  let bestFirst = DEFAULT_THRESHOLD_OPTIONS.level;
+  let bestLast = bestFirst;
+  let bestBetween = -1;
+  let bestInkCount = 0;
+  let inkCount = 0;
+  let inkSum = 0;
+  for (let level = 1; level < 256; level++) {
+    inkCount += counts[level - 1];
+    inkSum += (level - 1) * counts[level - 1];
+    const paperCount = total - inkCount;
+    if (inkCount === 0 || paperCount === 0) continue;
+    const inkMean = inkSum / inkCount;
+    const paperMean = (sum - inkSum) / paperCount;
+    const between =
+      (inkCount / total) * (paperCount / total) * (inkMean - paperMean) ** 2;
+    if (between > bestBetween) {
+      bestBetween = between;
+      bestFirst = bestLast = level;
+      bestInkCount = inkCount;
+    } else if (between === bestBetween && level === bestLast + 1) {
+      bestLast = level;
+    }
+  }
+  return {
+    level: Math.round((bestFirst + bestLast) / 2),
+    separability: variance > 0 ? Math.max(0, bestBetween) / variance : 0,
+    inkRatio: bestInkCount / total,
+  };
+}
+
+// ─── Binarization ───────────────────────────────────────────────────────────
+
+function applyLevel(image: RawImage, level: number): RawImage {
+  const { data, width, height, channels } = image;
+  const out = new Uint8Array(width * height);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = data[i * channels] < level ? 0 : 255;
+  }
+  return { data: out, width, height, channels: 1 };
+}
+
+/**
+ * Marks a pixel as ink when it is more than `offset` darker than the mean
+ * of the `windowSize` square around it (clipped at the page edge). Returns
+ * the binarized image and the mean of the per-pixel levels.
+ */
+function applyAdaptive(
+  image: RawImage,
+  windowSize: number,
+  offset: number,
+): { image: RawImage; meanLevel: number } {
+  const { data, width, height, channels } = image;
+  const half = Math.floor(windowSize / 2);
+
+  // Summed-area table, one row and column larger than the image
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[(y * width + x) * channels];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const out = new Uint8Array(width * height);
+  let levelSum = 0;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const windowSum =
+        integral[y1 * stride + x1] -
+        integral[y0 * stride + x1] -
+        integral[y1 * stride + x0] +
+        integral[y0 * stride + x0];
+      const level = windowSum / ((x1 - x0) * (y1 - y0)) - offset;
+      levelSum += level;
+      const i = y * width + x;
+      out[i] = data[i * channels] < level ? 0 : 255;
+    }
+  }
+
+  return {
+    image: { data: out, width, height, channels: 1 },
+    meanLevel: width * height > 0 ? levelSum / (width * height) : 0,
+  };
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Binarizes a raw grayscale image (first channel is used) into a
+ * single-channel black-on-white image, reporting the method and level used.
+ */
+export function binarize(
+  image: RawImage,
+  overrides?: Partial<ThresholdOptions>,
+): { image: RawImage; report: ThresholdReport } {
+  const { mode, level, windowSize, offset } = resolveThresholdOptions(overrides);
+
+  let method: Exclude<ThresholdMode, "auto"> = mode === "auto" ? "otsu" : mode;
+  let otsu: OtsuSplit | undefined;
+  if (mode === "otsu" || mode === "auto") {
+    otsu = otsuThreshold(histogram(image));
+    if (
+      mode === "auto" &&
+      (otsu.separability < AUTO_SEPARABILITY ||
+        otsu.inkRatio > AUTO_MAX_INK_RATIO)
+    ) {
+      method = "adaptive";
+    }
+  }
+
+  if (method === "adaptive") {
+    const adaptive = applyAdaptive(image, windowSize, offset);
+    return {
+      image: adaptive.image,
+      report: {
+        mode,
+        method,
+        threshold: Math.round(adaptive.meanLevel * 10) / 10,
+      },
+    };
+  }
+
+  const chosen = method === "otsu" && otsu ? otsu.level : level;
+  return {
+    image: applyLevel(image, chosen),
+    report: { mode, method, threshold: chosen },
+  };
+}
@@ -0,0 +1,157 @@
+import type { ComplexityLevel, TracingOptions } from "@/lib/pipeline/types";
+import {
+  type RawImage,
+  skeletonize,
+  toInkMask,
+} from "@/lib/pipeline/raster";
+
+// Tracing worksheet: the finished line art redrawn as guide strokes for
+// young children to trace over, dashed along each line's length and/or
+// lightened to a gray.
+//
+// Pipeline: skeletonize → distance along each centre line → dash on/off
+//           per centre pixel → spread to the full stroke → gray level
+
+// Longer dashes for younger audiences, whose lines are thicker
+const DASH_LENGTHS: Record<ComplexityLevel, number> = {
+  toddler: 16,
+  child: 12,
+  tween: 10,
+  adult: 8,
+};
+
+export const DEFAULT_TRACING_OPTIONS: Omit<TracingOptions, "dashLength"> = {
+  opacity: 0.5,
+};
+
+// Gap between dashes, as a share of the dash length
+const GAP_SHARE = 0.5;
+
+// Neighbour offsets clockwise from north, and the step length to each
+const NX = [0, 1, 1, 1, 0, -1, -1, -1];
+const NY = [-1, -1, 0, 1, 1, 1, 0, -1];
+const STEP = NX.map((dx, k) => Math.hypot(dx, NY[k]));
+
+export function resolveTracingOptions(
+  complexity: ComplexityLevel,
+  overrides?: Partial<TracingOptions>,
+): TracingOptions {
+  return {
+    dashLength: DASH_LENGTHS[complexity],
+    ...DEFAULT_TRACING_OPTIONS,
+    ...overrides,
+  };
+}
+
+/**
+ * Distance (px) along the skeleton from the nearest line end, walked
+ * breadth-first. Closed loops are measured from their first pixel in
+ * raster order.
+ */
+function distanceAlongLines(
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+): Float32Array {
+  const distance = new Float32Array(skeleton.length).fill(-1);
+  const queue = new Int32Array(skeleton.length);
+  let head = 0;
+  let tail = 0;
+
+  const neighbours = (i: number, visit: (j: number, k: number) => void) => {
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let k = 0; k < 8; k++) {
+      const nx = x + NX[k];
+      const ny = y + NY[k];
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const j = ny * width + nx;
+      if (skeleton[j]) visit(j, k);
+    }
+  };
+  const walk = () => {
+    while (head < tail) {
+      const i = queue[head++];
+      neighbours(i, (j, k) => {
+        if (distance[j] >= 0) return;
+        distance[j] = distance[i] + STEP[k];
+        queue[tail++] = j;
+      });
+    }
+  };
+
+  for (let i = 0; i < skeleton.length; i++) {
+    if (!skeleton[i]) continue;
+    let count = 0;
+    neighbours(i, () => count++);
+    if (count <= 1) {
+      distance[i] = 0;
+      queue[tail++] = i;
+    }
+  }
+  walk();
+  for (let i = 0; i < skeleton.length; i++) {
+    if (!skeleton[i] || distance[i] >= 0) continue;
+    distance[i] = 0;
+    queue[tail++] = i;
+    walk();
+  }
+  return distance;
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Redraws the lines of a raw grayscale image (first channel is used; values
+ * below 128 are ink) as tracing guides: dashes of `dashLength` (0 = solid
+ * lines) at `opacity`, keeping each line's width. `outputScale` is the
+ * output size over the working size, so dashes are measured in output
+ * pixels after the final resize. Returns a single-channel image.
+ */
+export function renderTracingGuides(
+  lineArt: RawImage,
+  options: TracingOptions,
+  outputScale = 1,
+): RawImage {
+  const { width, height } = lineArt;
+  const ink = toInkMask(lineArt);
+  const level = Math.round(255 * (1 - options.opacity));
+
+  // 1 = dash, 2 = gap, 0 = not yet assigned
+  const state = new Uint8Array(ink.length);
+  const queue = new Int32Array(ink.length);
+  let tail = 0;
+  if (options.dashLength > 0) {
+    const skeleton = skeletonize(ink, width, height);
+    const distance = distanceAlongLines(skeleton, width, height);
+    const dash = options.dashLength / outputScale;
+    const period = dash * (1 + GAP_SHARE);
+    for (let i = 0; i < skeleton.length; i++) {
+      if (!skeleton[i]) continue;
+      state[i] = distance[i] % period < dash ? 1 : 2;
+      queue[tail++] = i;
+    }
+
+    // Each stroke pixel takes the state of the nearest centre pixel
+    for (let head = 0; head < tail; head++) {
+      const i = queue[head];
+      const x = i % width;
+      for (const j of [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i - width,
+        i + width,
+      ]) {
+        if (j < 0 || j >= ink.length || !ink[j] || state[j]) continue;
+        state[j] = state[i];
+        queue[tail++] = j;
+      }
+    }
+  }
+
+  const data = new Uint8Array(ink.length).fill(255);
+  for (let i = 0; i < ink.length; i++) {
+    if (ink[i] && state[i] !== 2) data[i] = level;
+  }
+  return { data, width, height, channels: 1 };
+}
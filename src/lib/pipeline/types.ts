@@ -14,15 +14,291 @@ export const PromptVariant = z.enum([
 ]);
 export type PromptVariant = z.infer<typeof PromptVariant>;
 
+// ─── Generation Models ──────────────────────────────────────────────────────
+
+export const GENERATION_MODELS = [
+  {
+    id: "fal-ai/nano-banana-pro/edit",
+    label: "Nano Banana Pro",
+    type: "edit" as const,
+  },
+  {
+    id: "fal-ai/gpt-image-1.5/edit",
+    label: "GPT Image 1.5",
+    type: "edit" as const,
+  },
+  {
+    id: "fal-ai/nano-banana/edit",
+    label: "Nano Banana",
+    type: "edit" as const,
+  },
+  {
+    id: "fal-ai/gemini-3-pro-image-preview/edit",
+    label: "Gemini 3 Pro Preview",
+    type: "edit" as const,
+  },
+  {
+    id: "fal-ai/fast-sdxl",
+    label: "Fast SDXL (text-to-image)",
+    type: "text-to-image" as const,
+  },
+] as const;
+
+export type GenerationModelId = (typeof GENERATION_MODELS)[number]["id"];
+export type GenerationModel = (typeof GENERATION_MODELS)[number];
+
+export const GenerationModelIdSchema = z.enum(
+  GENERATION_MODELS.map((m) => m.id) as [
+    GenerationModelId,
+    ...GenerationModelId[],
+  ],
+);
+
+// ─── Retry Policy ───────────────────────────────────────────────────────────
+
+export const RetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1),
+  initialDelayMs: z.number().int().nonnegative(),
+  maxDelayMs: z.number().int().nonnegative(),
+  backoffFactor: z.number().min(1),
+  // Fraction of each backoff delay that is randomized (0 = none, 1 = full)
+  jitter: z.number().min(0).max(1),
+  // Deadline for a single attempt; the call is aborted when it expires
+  timeoutMs: z.number().int().positive(),
+});
+
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+
+// ─── Output Formats ─────────────────────────────────────────────────────────
+
+export const OutputFormat = z.enum(["png", "jpeg", "svg", "pdf"]);
+export type OutputFormat = z.infer<typeof OutputFormat>;
+
+export const OUTPUT_MIME_TYPES = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+} as const satisfies Record<OutputFormat, string>;
+
+export type OutputMimeType = (typeof OUTPUT_MIME_TYPES)[OutputFormat];
+
+// How the binarized page is traced into paths for "svg" output
+export const VectorizeOptionsSchema = z.object({
+  // Turn (degrees) above which a contour vertex stays a sharp corner
+  cornerThreshold: z.number().min(0).max(180),
+  // Ink specks and paper pinholes smaller than this (px) are dropped
+  speckleArea: z.number().int().nonnegative(),
+  // Max distance (px) a simplified outline may stray from the pixels
+  tolerance: z.number().positive(),
+});
+
+export type VectorizeOptions = z.infer<typeof VectorizeOptionsSchema>;
+
+export const PaperSize = z.enum(["letter", "a4", "custom"]);
+export type PaperSize = z.infer<typeof PaperSize>;
+
+// Physical page layout for "pdf" output. Lengths are in inches.
+export const PrintLayoutSchema = z.object({
+  paperSize: PaperSize,
+  // Trim size, required when paperSize is "custom"
+  widthIn: z.number().positive().optional(),
+  heightIn: z.number().positive().optional(),
+  // Resolution the page is rasterized at for its placed size
+  dpi: z.number().int().min(72).max(600),
+  // Blank space kept inside the trim edge on every side
+  marginIn: z.number().nonnegative(),
+  // Extra paper beyond the trim edge on every side
+  bleedIn: z.number().nonnegative(),
+  cropMarks: z.boolean(),
+});
+
+export type PrintLayout = z.infer<typeof PrintLayoutSchema>;
+
+// How the post-processor binarizes the grayscale page. "auto" picks otsu or
+// adaptive from the image histogram.
+export const ThresholdMode = z.enum(["fixed", "otsu", "adaptive", "auto"]);
+export type ThresholdMode = z.infer<typeof ThresholdMode>;
+
+export const ThresholdOptionsSchema = z.object({
+  mode: ThresholdMode,
+  // Gray level below which a pixel is ink, for "fixed"
+  level: z.number().int().min(1).max(255),
+  // Side (px) of the neighbourhood averaged for "adaptive"; odd
+  windowSize: z.number().int().min(3).max(255),
+  // How far below its neighbourhood mean a pixel must be to count as ink,
+  // for "adaptive"
+  offset: z.number().int().min(0).max(64),
+});
+
+export type ThresholdOptions = z.infer<typeof ThresholdOptionsSchema>;
+
+// Redraws every line at one stroke width when the page's lines are too
+// thick or too thin for its complexity
+export const LineWeightOptionsSchema = z.object({
+  // Stroke width (px) in the output image; defaults to the middle of the
+  // complexity level's band
+  targetWidth: z.number().min(1).max(32),
+  // How far (px) the measured median width may be from the target before
+  // lines are redrawn
+  tolerance: z.number().min(0).max(8),
+});
+
+export type LineWeightOptions = z.infer<typeof LineWeightOptionsSchema>;
+
+// Pattern drawn inside a hollowed solid fill
+export const SolidFillPattern = z.enum(["none", "hatch", "crosshatch"]);
+export type SolidFillPattern = z.infer<typeof SolidFillPattern>;
+
+// Converts large solid black areas (hair, clothing, shadows) into outlines
+export const SolidFillOptionsSchema = z.object({
+  // Ink thinner than this (px) everywhere is a line, not a fill
+  minThickness: z.number().int().min(4).max(128),
+  // Fills smaller than this (px) are left solid
+  minArea: z.number().int().nonnegative(),
+  // Width (px) of the outline left around a hollowed fill; defaults to the
+  // middle of the complexity level's stroke-width band
+  outlineWidth: z.number().int().min(1).max(16),
+  // Defaults to "hatch" for adult pages and "none" otherwise
+  pattern: SolidFillPattern,
+  // Distance (px) between hatch lines
+  hatchSpacing: z.number().int().min(4).max(64),
+});
+
+export type SolidFillOptions = z.infer<typeof SolidFillOptionsSchema>;
+
+// Numbers every region and suggests a color for it from the source photo
+export const ColorByNumberOptionsSchema = z.object({
+  // Colors in the legend; defaults to more for higher complexity levels
+  paletteSize: z.number().int().min(2).max(30),
+  // Height range (px) of the numbers; regions too small to fit the minimum
+  // are left unnumbered
+  minLabelHeight: z.number().int().min(4).max(64),
+  maxLabelHeight: z.number().int().min(4).max(128),
+});
+
+export type ColorByNumberOptions = z.infer<typeof ColorByNumberOptionsSchema>;
+
+// Turns the main subject's outline into numbered dots and fades the rest
+// of the scene. Lengths are in pixels of the output image.
+export const DotToDotOptionsSchema = z.object({
+  // Dots along the outline; defaults to fewer for younger audiences
+  dotCount: z.number().int().min(3).max(200),
+  dotRadius: z.number().min(1).max(16),
+  labelHeight: z.number().int().min(6).max(64),
+  // Gray level (lighter = fainter) of the lines that are not dots. SVG and
+  // PDF pages are pure black and white, so they keep only the dots
+  fadeLevel: z.number().int().min(128).max(240),
+});
+
+export type DotToDotOptions = z.infer<typeof DotToDotOptionsSchema>;
+
+// Redraws the finished lines as dashed and/or gray guides for a "trace the
+// picture" worksheet
+export const TracingOptionsSchema = z.object({
+  // Length (px, in the output image) of each dash; 0 = unbroken lines.
+  // Defaults to longer dashes for younger audiences
+  dashLength: z.number().min(0).max(64),
+  // Darkness of the guides, from faint (0.1) to black (1)
+  opacity: z.number().min(0.1).max(1),
+});
+
+export type TracingOptions = z.infer<typeof TracingOptionsSchema>;
+
+// Built-in frames drawn around the page
+export const FrameStyle = z.enum([
+  "rule",
+  "rounded",
+  "scalloped",
+  "stars",
+  "hearts",
+]);
+export type FrameStyle = z.infer<typeof FrameStyle>;
+
+// Decorative frame composited around the page, with the artwork scaled to
+// fit inside it. Lengths other than lineWidth are shares of the page's
+// shorter side.
+export const FrameOptionsSchema = z.object({
+  // A FrameStyle, or the name (without ".svg") of a custom template in
+  // FRAME_TEMPLATES_DIR; defaults by complexity level
+  template: z.string().regex(/^[\w-]+$/),
+  // Line width (px, in the output image) of built-in frames; defaults to
+  // the middle of the complexity level's stroke-width band
+  lineWidth: z.number().min(1).max(32),
+  // Blank space between the page edge and the frame
+  margin: z.number().min(0).max(0.2),
+  // Blank space between the frame and the artwork
+  padding: z.number().min(0).max(0.2),
+});
+
+export type FrameOptions = z.infer<typeof FrameOptionsSchema>;
+
+// Bridging of small breaks in outlines, so bucket fills stay in their region
+export const GapClosingOptionsSchema = z.object({
+  // Widest break (px) between a line end and another line that is bridged
+  maxGap: z.number().int().min(1).max(32),
+  // Max angle (degrees) between a line's direction and the bridge
+  maxAngle: z.number().min(0).max(90),
+});
+
+export type GapClosingOptions = z.infer<typeof GapClosingOptionsSchema>;
+
+// How a regenerated page differs from the one the quality gate rejected
+export const QualityGateRetryStrategy = z.enum([
+  "new-seed",
+  "adjust-prompt",
+  "both",
+]);
+export type QualityGateRetryStrategy = z.infer<typeof QualityGateRetryStrategy>;
+
+// Regenerates pages whose region count misses the complexity target
+export const QualityGateOptionsSchema = z.object({
+  // Generations allowed in total, including the first
+  maxAttempts: z.number().int().min(1).max(5),
+  retryStrategy: QualityGateRetryStrategy,
+});
+
+export type QualityGateOptions = z.infer<typeof QualityGateOptionsSchema>;
+
 // ─── Pipeline Options ───────────────────────────────────────────────────────
 
 export const PipelineOptionsSchema = z.object({
   targetComplexity: ComplexityLevel,
   promptVariant: PromptVariant.default("direct-transform"),
+  model: GenerationModelIdSchema.default("fal-ai/fast-sdxl"),
   preserveFaces: z.boolean().default(true),
-  outputFormat: z.enum(["png", "jpeg"]).default("png"),
+  outputFormat: OutputFormat.default("png"),
   outputWidth: z.number().int().positive().optional(),
   outputHeight: z.number().int().positive().optional(),
+  // Fixed generation seed for reproducible runs; omitted = provider's choice
+  seed: z.number().int().nonnegative().optional(),
+  retry: RetryPolicySchema.partial().optional(),
+  vectorize: VectorizeOptionsSchema.partial().optional(),
+  print: PrintLayoutSchema.partial().optional(),
+  // Omitted = auto-selected threshold
+  threshold: ThresholdOptionsSchema.partial().optional(),
+  // Ink specks and paper pinholes smaller than this (px, in the output
+  // image) are removed in place of the median filter; omitted = median filter
+  speckleArea: z.number().int().positive().optional(),
+  // Omitted = solid black areas are kept
+  solidFills: SolidFillOptionsSchema.partial().optional(),
+  // Omitted = lines keep the width they were generated with
+  lineWeight: LineWeightOptionsSchema.partial().optional(),
+  // Omitted = outlines are left as generated
+  gapClosing: GapClosingOptionsSchema.partial().optional(),
+  // Omitted = a plain coloring page without numbers
+  colorByNumber: ColorByNumberOptionsSchema.partial().optional(),
+  // Omitted = a coloring page; cannot be combined with colorByNumber
+  dotToDot: DotToDotOptionsSchema.partial().optional(),
+  // Also render the regions flat-filled with colors from the photo, as a
+  // guide to the finished page
+  coloredPreview: z.boolean().optional(),
+  // Omitted = no tracing worksheet is rendered alongside the page
+  tracing: TracingOptionsSchema.partial().optional(),
+  // Omitted = the page is not framed
+  frame: FrameOptionsSchema.partial().optional(),
+  // Omitted = the first generated page is always kept
+  qualityGate: QualityGateOptionsSchema.partial().optional(),
 });
 
 export type PipelineOptions = z.infer<typeof PipelineOptionsSchema>;
@@ -32,6 +308,10 @@ export type PipelineOptions = z.infer<typeof PipelineOptionsSchema>;
 export interface PipelineInput {
   readonly image: File | Blob | string;
   readonly options: PipelineOptions;
+  // Aborts in-flight provider calls and post-processing when fired
+  readonly signal?: AbortSignal;
+  // Receives stage, queue and log events while the pipeline runs
+  readonly onEvent?: PipelineEventListener;
 }
 
 // ─── Detected Element ───────────────────────────────────────────────────────
@@ -122,6 +402,30 @@ export const ImageAnalysisSchema = z.object({
 });
 export type ImageAnalysis = z.infer<typeof ImageAnalysisSchema>;
 
+// ─── Analysis Provider ──────────────────────────────────────────────────────
+
+/**
+ * Backend that produces an ImageAnalysis for a photo. The Claude analyzer is
+ * the live implementation; record/replay wrappers persist results as
+ * fixtures. Selected with the ANALYSIS_PROVIDER env var.
+ */
+export interface AnalysisProvider {
+  readonly name: string;
+  analyze(
+    image: string | Buffer,
+    options?: AnalyzeOptions,
+  ): Promise<ImageAnalysis>;
+}
+
+/**
+ * Options for AnalysisProvider.analyze. `imageHash` is the SHA-256 of the
+ * original photo bytes, taken before upload; record/replay key fixtures by
+ * it instead of downloading `image` again.
+ */
+export interface AnalyzeOptions extends ProviderCallOptions {
+  readonly imageHash?: string;
+}
+
 // ─── FAL Vision Response ────────────────────────────────────────────────────
 
 export const VisionResponseSchema = z.object({
@@ -171,37 +475,64 @@ export const EditImageResponseSchema = z.object({
 
 export type EditImageResponse = z.infer<typeof EditImageResponseSchema>;
 
-// ─── Generation Models ──────────────────────────────────────────────────────
+// ─── Generation Provider ────────────────────────────────────────────────────
 
-export const GENERATION_MODELS = [
-  {
-    id: "fal-ai/nano-banana-pro/edit",
-    label: "Nano Banana Pro",
-    type: "edit" as const,
-  },
-  {
-    id: "fal-ai/gpt-image-1.5/edit",
-    label: "GPT Image 1.5",
-    type: "edit" as const,
-  },
-  {
-    id: "fal-ai/nano-banana/edit",
-    label: "Nano Banana",
-    type: "edit" as const,
-  },
-  {
-    id: "fal-ai/gemini-3-pro-image-preview/edit",
-    label: "Gemini 3 Pro Preview",
-    type: "edit" as const,
-  },
-  {
-    id: "fal-ai/fast-sdxl",
-    label: "Fast SDXL (text-to-image)",
-    type: "text-to-image" as const,
-  },
-] as const;
+/**
+ * Options shared by every provider call.
+ */
+export interface ProviderCallOptions {
+  readonly retry?: Partial<RetryPolicy>;
+  readonly signal?: AbortSignal;
+  readonly onEvent?: PipelineEventListener;
+}
 
-export type GenerationModelId = (typeof GENERATION_MODELS)[number]["id"];
+/**
+ * A provider response plus the number of attempts it took to obtain it.
+ */
+export interface ProviderResponse<T> {
+  readonly data: T;
+  readonly attempts: number;
+}
+
+export interface ImageGenerationCallOptions extends ProviderCallOptions {
+  readonly prompt: string;
+  readonly negativePrompt: string;
+  readonly imageSize?:
+    | "square_hd"
+    | "square"
+    | "portrait_4_3"
+    | "portrait_16_9"
+    | "landscape_4_3"
+    | "landscape_16_9";
+  readonly numInferenceSteps?: number;
+  readonly guidanceScale?: number;
+  readonly seed?: number;
+}
+
+export interface ImageEditCallOptions extends ProviderCallOptions {
+  readonly model: string;
+  readonly prompt: string;
+  readonly imageUrls: string[];
+  readonly numImages?: number;
+  readonly outputFormat?: "jpeg" | "png" | "webp";
+  readonly seed?: number;
+}
+
+/**
+ * Backend that turns prompts (and source images, for edit models) into
+ * coloring page images. Implemented by the fal.ai client and by the local
+ * offline provider; selected with the GENERATION_PROVIDER env var.
+ */
+export interface GenerationProvider {
+  readonly name: string;
+  generate(
+    options: ImageGenerationCallOptions,
+  ): Promise<ProviderResponse<ImageGenerationResponse>>;
+  edit(
+    options: ImageEditCallOptions,
+  ): Promise<ProviderResponse<EditImageResponse>>;
+  upload(file: File | Blob, options?: ProviderCallOptions): Promise<string>;
+}
 
 // ─── Generation Result ──────────────────────────────────────────────────────
 
@@ -214,13 +545,173 @@ export interface GenerationResult {
   readonly negativePromptUsed?: string;
   readonly seed?: number;
   readonly description?: string;
+  // Number of provider calls made, including retries
+  readonly attempts?: number;
+}
+
+// ─── Post-Processing Result ─────────────────────────────────────────────────
+
+export interface ThresholdReport {
+  readonly mode: ThresholdMode;
+  // Method actually applied; differs from `mode` only for "auto"
+  readonly method: Exclude<ThresholdMode, "auto">;
+  // Gray level below which pixels became ink; for "adaptive", the mean of
+  // the per-pixel thresholds
+  readonly threshold: number;
+}
+
+export interface SpeckleReport {
+  // Isolated ink specks turned to paper
+  readonly specksRemoved: number;
+  // Enclosed paper pinholes filled with ink
+  readonly pinholesFilled: number;
+}
+
+export interface SolidFillReport {
+  // Solid areas turned into outlines
+  readonly fillsHollowed: number;
+  // Ink (px) removed from their interiors, before any pattern is drawn
+  readonly areaConverted: number;
+  // areaConverted as a share of the page (0-1)
+  readonly areaRatio: number;
+}
+
+// Stroke widths are in pixels at the working (pre-resize) resolution
+export interface LineWeightReport {
+  readonly targetWidth: number;
+  // Median stroke width measured before and after normalization
+  readonly strokeWidthBefore: number;
+  readonly strokeWidthAfter: number;
+  // False when the lines were already within tolerance and left untouched
+  readonly redrawn: boolean;
+}
+
+export interface GapClosingReport {
+  readonly gapsClosed: number;
+  // Fillable paper regions before and after the gaps were bridged
+  readonly regionsBefore: number;
+  readonly regionsAfter: number;
+}
+
+// Objective colorability measurements of the binarized page
+export interface ColorabilityMetrics {
+  // Paper regions a bucket fill treats separately (the page edge counts as
+  // a boundary), ignoring specks too small to color
+  readonly regionCount: number;
+  // Region counts by size as a share of the page: tiny < 0.1%,
+  // small < 1%, medium < 10%, large >= 10%
+  readonly regionSizes: {
+    readonly tiny: number;
+    readonly small: number;
+    readonly medium: number;
+    readonly large: number;
+  };
+  // Area (px) of the smallest counted region; 0 when there are none
+  readonly smallestRegionArea: number;
+  // Share of pixels that are ink (0-1)
+  readonly inkRatio: number;
+  // Median stroke width (px) along the centre lines
+  readonly strokeWidth: number;
+  // Lines that stop in open paper instead of joining another line
+  readonly openLineEnds: number;
+  // Pixel size the metrics were measured at
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface ColorByNumberLegendEntry {
+  readonly number: number;
+  // Suggested color as #rrggbb
+  readonly color: string;
+  // Regions that take this color
+  readonly regions: number;
+}
+
+export interface ColorByNumberReport {
+  // Ordered by number; lower numbers cover more of the page
+  readonly legend: readonly ColorByNumberLegendEntry[];
+  readonly regionsNumbered: number;
+  // Regions too small to hold a number
+  readonly regionsUnnumbered: number;
+}
+
+export interface DotToDotReport {
+  // Dots drawn; 0 when no closed subject outline was found and the
+  // coloring page was returned unchanged
+  readonly dots: number;
+  // Length (px) of the traced subject outline at the working resolution
+  readonly outlineLength: number;
+}
+
+export interface PostProcessResult {
+  readonly image: Buffer;
+  readonly metrics: ColorabilityMetrics;
+  readonly threshold: ThresholdReport;
+  // Set when speckle removal ran
+  readonly speckles?: SpeckleReport;
+  // Set when solid-fill hollowing ran
+  readonly solidFills?: SolidFillReport;
+  // Set when line-weight normalization ran
+  readonly lineWeight?: LineWeightReport;
+  // Set when gap closing ran
+  readonly gapClosing?: GapClosingReport;
+  // Set for color-by-number pages
+  readonly colorByNumber?: ColorByNumberReport;
+  // Set for dot-to-dot pages
+  readonly dotToDot?: DotToDotReport;
+  // Flat-colored reference PNG, when requested
+  readonly preview?: Buffer;
+  // Tracing worksheet PNG, when requested
+  readonly tracing?: Buffer;
+}
+
+// ─── Quality Gate ───────────────────────────────────────────────────────────
+
+// Prompt adjustment for a page with too many ("simplify") or too few
+// ("add-detail") regions
+export type RegionCorrection = "simplify" | "add-detail";
+
+export interface QualityGateAttempt {
+  readonly generation: GenerationResult;
+  readonly metrics: ColorabilityMetrics;
+  // Seed sent to the provider, or the one it reported; absent if unknown
+  readonly seed?: number;
+  // Prompt adjustment this attempt was generated with
+  readonly correction?: RegionCorrection;
+  // Why the gate rejected this attempt; absent if it passed
+  readonly rejectedReason?: string;
+}
+
+export interface QualityGateReport {
+  readonly passed: boolean;
+  // Every generation in order, including the one returned
+  readonly attempts: readonly QualityGateAttempt[];
+  // Index into `attempts` of the page returned: the passing one, or the
+  // one closest to the target when none passed
+  readonly selectedAttempt: number;
 }
 
 // ─── Pipeline Output ────────────────────────────────────────────────────────
 
 export interface PipelineOutput {
   readonly finalImage: Buffer;
-  readonly mimeType: "image/png" | "image/jpeg";
+  readonly mimeType: OutputMimeType;
+  readonly metrics: ColorabilityMetrics;
+  readonly threshold: ThresholdReport;
+  readonly speckles?: SpeckleReport;
+  readonly solidFills?: SolidFillReport;
+  readonly lineWeight?: LineWeightReport;
+  readonly gapClosing?: GapClosingReport;
+  readonly colorByNumber?: ColorByNumberReport;
+  readonly dotToDot?: DotToDotReport;
+  // Flat-colored reference PNG at the size of finalImage, when
+  // coloredPreview was requested
+  readonly preview?: Buffer;
+  // Tracing worksheet PNG at the size of finalImage, when tracing was
+  // requested
+  readonly tracing?: Buffer;
+  // Set when the quality gate ran
+  readonly qualityGate?: QualityGateReport;
   readonly imageAnalysis: ImageAnalysis;
   readonly analysis: AnalysisResult;
   readonly generation: GenerationResult;
@@ -234,13 +725,72 @@ export interface PipelineOutput {
 
 // ─── Pipeline Error ─────────────────────────────────────────────────────────
 
+export type PipelineStage = "analysis" | "generation" | "post-processing";
+
+export interface PipelineErrorDetails {
+  // Number of attempts made before giving up (set by the retry policy)
+  readonly attempts?: number;
+  // True when the final failure was retryable (rate limit, 5xx, timeout)
+  // and only failed because attempts ran out
+  readonly transient?: boolean;
+  // True when the run was aborted through its AbortSignal
+  readonly cancelled?: boolean;
+}
+
 export class PipelineError extends Error {
+  public readonly attempts?: number;
+  public readonly transient: boolean;
+  public readonly cancelled: boolean;
+
   constructor(
     message: string,
-    public readonly stage: "analysis" | "generation" | "post-processing",
+    public readonly stage: PipelineStage,
     public readonly cause?: unknown,
+    details: PipelineErrorDetails = {},
   ) {
     super(message);
     this.name = "PipelineError";
+    this.attempts = details.attempts;
+    this.transient = details.transient ?? false;
+    this.cancelled = details.cancelled ?? false;
   }
 }
+
+// ─── Pipeline Events ────────────────────────────────────────────────────────
+
+/**
+ * Progress reported while a pipeline runs. Queue and log events come from
+ * the provider (fal queue updates); stage events from the orchestrator.
+ */
+export type PipelineEvent =
+  | { readonly type: "stage-start"; readonly stage: PipelineStage }
+  | {
+      readonly type: "stage-end";
+      readonly stage: PipelineStage;
+      readonly durationMs: number;
+    }
+  | {
+      readonly type: "stage-error";
+      readonly stage: PipelineStage;
+      readonly message: string;
+      readonly cancelled: boolean;
+    }
+  | {
+      readonly type: "queue";
+      readonly stage: PipelineStage;
+      readonly position: number;
+    }
+  | {
+      readonly type: "log";
+      readonly stage: PipelineStage;
+      readonly message: string;
+    };
+
+export type PipelineEventListener = (event: PipelineEvent) => void;
+
+/**
+ * Items yielded by streamPipeline: every PipelineEvent, then the output.
+ */
+export type PipelineStreamEvent =
+  | PipelineEvent
+  | { readonly type: "complete"; readonly output: PipelineOutput };
@@ -0,0 +1,271 @@
+import type { VectorizeOptions } from "@/lib/pipeline/types";
+import { formatNumber } from "@/lib/pipeline/image-source";
+import {
+  type RawImage,
+  removeSmallRegions,
+  toInkMask,
+} from "@/lib/pipeline/raster";
+
+// Traces a binarized bitmap into an SVG of filled Bézier paths, so coloring
+// pages stay sharp at any print size.
+//
+// Pipeline: speckle suppression → contour tracing through the midpoints of
+//           pixel edges → Douglas–Peucker simplification → Bézier fitting
+//           → SVG
+
+export const DEFAULT_VECTORIZE_OPTIONS: VectorizeOptions = {
+  cornerThreshold: 60,
+  speckleArea: 8,
+  tolerance: 1,
+};
+
+// Directions in image space (y grows downward): east, south, west, north
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+// A vertex's turn is measured against the outline at least this far (px)
+// away on each side, so a sharp corner whose tip was cut into two short
+// segments still counts as one turn
+const CORNER_SPAN = 3;
+
+type Point = readonly [number, number];
+
+export function resolveVectorizeOptions(
+  overrides?: Partial<VectorizeOptions>,
+): VectorizeOptions {
+  return { ...DEFAULT_VECTORIZE_OPTIONS, ...overrides };
+}
+
+// ─── Contour Tracing ────────────────────────────────────────────────────────
+
+/**
+ * Traces every boundary between ink and paper as a closed loop through the
+ * midpoints of its pixel edges. Unlike the pixel corners, the midpoints of
+ * a one-pixel staircase lie on a straight line, so diagonal jaggies do not
+ * survive simplification as corners. Edges are oriented with ink on the
+ * left, so outlines and holes wind in opposite directions.
+ */
+function traceContours(
+  ink: Uint8Array,
+  width: number,
+  height: number,
+): Point[][] {
+  const stride = width + 1;
+  // Bitmask of unvisited outgoing edges (bit = direction) per lattice point
+  const edges = new Uint8Array(stride * (height + 1));
+  const isInk = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && ink[y * width + x] === 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isInk(x, y)) continue;
+      if (!isInk(x, y - 1)) edges[y * stride + x + 1] |= 1 << 2;
+      if (!isInk(x, y + 1)) edges[(y + 1) * stride + x] |= 1 << 0;
+      if (!isInk(x - 1, y)) edges[y * stride + x] |= 1 << 1;
+      if (!isInk(x + 1, y)) edges[(y + 1) * stride + x + 1] |= 1 << 3;
+    }
+  }
+
+  const contours: Point[][] = [];
+  for (let start = 0; start < edges.length; start++) {
+    if (edges[start] === 0) continue;
+
+    const points: Point[] = [];
+    let vertex = start;
+    let direction = -1;
+    do {
+      const mask = edges[vertex];
+      // Prefer turning left, then straight, then right; at a saddle this
+      // consistently joins diagonal ink pixels
+      let next = -1;
+      if (direction < 0) {
+        next = Math.log2(mask & -mask);
+      } else {
+        for (const turn of [3, 0, 1]) {
+          const candidate = (direction + turn) % 4;
+          if (mask & (1 << candidate)) {
+            next = candidate;
+            break;
+          }
+        }
+      }
+      if (next < 0) break;
+
+      const x = vertex % stride;
+      points.push([x + DX[next] / 2, (vertex - x) / stride + DY[next] / 2]);
+      edges[vertex] &= ~(1 << next);
+      vertex += DY[next] * stride + DX[next];
+      direction = next;
+    } while (vertex !== start);
+
+    if (points.length >= 3) contours.push(points);
+  }
+  return contours;
+}
+
+// ─── Simplification ─────────────────────────────────────────────────────────
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p[0] - a[0], p[1] - a[1]);
+  const t = Math.max(
+    0,
+    Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq),
+  );
+  return Math.hypot(p[0] - a[0] - t * dx, p[1] - a[1] - t * dy);
+}
+
+/**
+ * Douglas–Peucker on an open polyline. Returns the kept points, including
+ * both endpoints.
+ */
+function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = distanceToSegment(points[i], points[first], points[last]);
+      if (d > maxDistance) {
+        maxDistance = d;
+        farthest = i;
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest] = 1;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Simplifies a closed loop by splitting it at its first point and the
+ * point farthest from it.
+ */
+function simplifyLoop(points: Point[], tolerance: number): Point[] {
+  let split = 0;
+  let maxDistance = -1;
+  for (let i = 1; i < points.length; i++) {
+    const d = Math.hypot(
+      points[i][0] - points[0][0],
+      points[i][1] - points[0][1],
+    );
+    if (d > maxDistance) {
+      maxDistance = d;
+      split = i;
+    }
+  }
+  const first = simplifyPolyline(points.slice(0, split + 1), tolerance);
+  const second = simplifyPolyline(
+    [...points.slice(split), points[0]],
+    tolerance,
+  );
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+}
+
+// ─── Bézier Fitting ─────────────────────────────────────────────────────────
+
+/**
+ * Converts a simplified loop into an SVG subpath. Vertices where the
+ * outline turns by more than `cornerThreshold` degrees (measured over
+ * CORNER_SPAN) stay sharp; the rest get tangents parallel to their
+ * neighbours' chord, with handles a third of each adjacent segment long.
+ */
+function loopToPath(points: Point[], cornerThreshold: number): string {
+  const n = points.length;
+  // First vertex at least CORNER_SPAN from vertex i, walking by `step`
+  const reach = (i: number, step: number): Point => {
+    const p = points[i];
+    for (let k = 1; k < n; k++) {
+      const q = points[(i + step * k + n * k) % n];
+      if (Math.hypot(q[0] - p[0], q[1] - p[1]) >= CORNER_SPAN) return q;
+    }
+    return points[(i + step + n) % n];
+  };
+
+  const handles = points.map((p, i) => {
+    const prev = points[(i + n - 1) % n];
+    const next = points[(i + 1) % n];
+    const inLength = Math.hypot(p[0] - prev[0], p[1] - prev[1]);
+    const outLength = Math.hypot(next[0] - p[0], next[1] - p[1]);
+
+    const before = reach(i, -1);
+    const after = reach(i, 1);
+    const cos =
+      ((p[0] - before[0]) * (after[0] - p[0]) +
+        (p[1] - before[1]) * (after[1] - p[1])) /
+      (Math.hypot(p[0] - before[0], p[1] - before[1]) *
+        Math.hypot(after[0] - p[0], after[1] - p[1]) || 1);
+    const turn = (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+    if (turn > cornerThreshold) return { corner: true, in: p, out: p };
+
+    const chordX = next[0] - prev[0];
+    const chordY = next[1] - prev[1];
+    const chord = Math.hypot(chordX, chordY) || 1;
+    const ux = chordX / chord;
+    const uy = chordY / chord;
+    return {
+      corner: false,
+      in: [p[0] - (ux * inLength) / 3, p[1] - (uy * inLength) / 3] as Point,
+      out: [p[0] + (ux * outLength) / 3, p[1] + (uy * outLength) / 3] as Point,
+    };
+  });
+
+  const parts = [`M${formatNumber(points[0][0])} ${formatNumber(points[0][1])}`];
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    const end = points[j];
+    if (handles[i].corner && handles[j].corner) {
+      parts.push(`L${formatNumber(end[0])} ${formatNumber(end[1])}`);
+    } else {
+      const c1 = handles[i].out;
+      const c2 = handles[j].in;
+      parts.push(
+        `C${formatNumber(c1[0])} ${formatNumber(c1[1])} ${formatNumber(c2[0])} ${formatNumber(c2[1])} ${formatNumber(end[0])} ${formatNumber(end[1])}`,
+      );
+    }
+  }
+  parts.push("Z");
+  return parts.join("");
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Traces a raw grayscale image (first channel is used; values below 128
+ * are ink) into a standalone SVG document with black fills on white.
+ */
+export function vectorizeBitmap(
+  image: RawImage,
+  options?: Partial<VectorizeOptions>,
+): string {
+  const { cornerThreshold, speckleArea, tolerance } =
+    resolveVectorizeOptions(options);
+  const { width, height } = image;
+
+  const ink = toInkMask(image);
+  if (speckleArea > 0) {
+    removeSmallRegions(ink, width, height, 1, speckleArea);
+    removeSmallRegions(ink, width, height, 0, speckleArea);
+  }
+
+  const paths = traceContours(ink, width, height)
+    .map((contour) => simplifyLoop(contour, tolerance))
+    .filter((loop) => loop.length >= 3)
+    .map((loop) => loopToPath(loop, cornerThreshold));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="100%" height="100%" fill="#fff"/>
+<path fill="#000" fill-rule="evenodd" d="${paths.join("")}"/>
+</svg>
+`;
+}
@@ -2,16 +2,31 @@ import type {
   AnalysisResult,
   ComplexityLevel,
   PromptVariant,
+  RegionCorrection,
 } from "@/lib/pipeline/types";
 
 // ─── Complexity Configuration ───────────────────────────────────────────────
 
+// Number of distinct coloring regions a page should have; no max = open-ended
+export interface RegionTarget {
+  min: number;
+  max?: number;
+}
+
+// Stroke width (px) the prompts ask for, in the delivered image
+export interface StrokeWidthTarget {
+  min: number;
+  max: number;
+}
+
 interface ComplexityConfig {
   lineWeight: string;
   detailLevel: string;
   regionSize: string;
   ageDescription: string;
   additionalInstructions: string;
+  regionTarget: RegionTarget;
+  strokeWidth: StrokeWidthTarget;
 }
 
 const COMPLEXITY_CONFIG: Record<ComplexityLevel, ComplexityConfig> = {
@@ -22,6 +37,8 @@ const COMPLEXITY_CONFIG: Record<ComplexityLevel, ComplexityConfig> = {
     ageDescription: "toddlers ages 2-4",
     additionalInstructions:
       "Reduce everything to basic geometric shapes. No small details, no textures, no patterns. Maximum 8-10 distinct regions to color.",
+    regionTarget: { min: 8, max: 10 },
+    strokeWidth: { min: 6, max: 8 },
   },
   child: {
     lineWeight: "thick, clear outlines (4-6px equivalent)",
@@ -30,6 +47,8 @@ const COMPLEXITY_CONFIG: Record<ComplexityLevel, ComplexityConfig> = {
     ageDescription: "children ages 5-8",
     additionalInstructions:
       "Keep shapes recognizable but simplified. Include some detail in clothing and hair. Around 15-25 distinct coloring regions.",
+    regionTarget: { min: 15, max: 25 },
+    strokeWidth: { min: 4, max: 6 },
   },
   tween: {
     lineWeight: "medium outlines (2-4px equivalent)",
@@ -38,6 +57,8 @@ const COMPLEXITY_CONFIG: Record<ComplexityLevel, ComplexityConfig> = {
     ageDescription: "tweens ages 9-12",
     additionalInstructions:
       "Include detailed features like clothing folds, hair texture, and background elements. Around 30-50 distinct coloring regions.",
+    regionTarget: { min: 30, max: 50 },
+    strokeWidth: { min: 2, max: 4 },
   },
   adult: {
     lineWeight: "fine, precise outlines (1-3px equivalent)",
@@ -46,9 +67,38 @@ const COMPLEXITY_CONFIG: Record<ComplexityLevel, ComplexityConfig> = {
     ageDescription: "adults and advanced colorists",
     additionalInstructions:
       "Include fine details: fabric textures, individual leaves, architectural details, hair strands. Add decorative patterns in large empty areas. 50+ distinct coloring regions.",
+    regionTarget: { min: 50 },
+    strokeWidth: { min: 1, max: 3 },
   },
 };
 
+/**
+ * Region count the prompts ask for at a complexity level.
+ */
+export function getRegionTarget(complexityLevel: ComplexityLevel): RegionTarget {
+  return COMPLEXITY_CONFIG[complexityLevel].regionTarget;
+}
+
+/**
+ * Whether a measured region count falls within the complexity's target.
+ */
+export function isWithinRegionTarget(
+  complexityLevel: ComplexityLevel,
+  regionCount: number,
+): boolean {
+  const { min, max } = getRegionTarget(complexityLevel);
+  return regionCount >= min && (max === undefined || regionCount <= max);
+}
+
+/**
+ * Stroke width the prompts ask for at a complexity level.
+ */
+export function getStrokeWidthTarget(
+  complexityLevel: ComplexityLevel,
+): StrokeWidthTarget {
+  return COMPLEXITY_CONFIG[complexityLevel].strokeWidth;
+}
+
 // ─── Shared Helpers ─────────────────────────────────────────────────────────
 
 function buildSceneBlock(analysis: AnalysisResult): string {
@@ -282,6 +332,21 @@ const VARIANT_BUILDERS: Record<
   "simplification-heavy": simplificationHeavy,
 };
 
+// ─── Region Corrections ─────────────────────────────────────────────────────
+// Appended when a page is regenerated because its region count missed the
+// complexity target.
+
+function buildRegionCorrection(
+  complexityLevel: ComplexityLevel,
+  correction: RegionCorrection,
+): string {
+  const { min, max } = getRegionTarget(complexityLevel);
+  if (correction === "simplify") {
+    return `IMPORTANT: Simplify much more strongly than usual. Use no more than ${max ?? min} distinct coloring regions in total. Merge small details into the surrounding shapes, drop textures and patterns, and leave background areas as large open spaces.`;
+  }
+  return `IMPORTANT: Add more detail than usual. Use at least ${min} distinct coloring regions. Split large empty areas with clothing folds, hair sections, patterns or simple background elements, keeping every region clearly outlined.`;
+}
+
 /**
  * Builds the generation prompt for the given variant.
  * Returns both the positive prompt string and the shared negative prompt.
@@ -290,10 +355,14 @@ export function buildGenerationPrompt(
   variant: PromptVariant,
   complexityLevel: ComplexityLevel,
   analysisResult?: AnalysisResult,
+  correction?: RegionCorrection,
 ): { prompt: string; negativePrompt: string } {
   const builder = VARIANT_BUILDERS[variant];
+  const prompt = builder(complexityLevel, analysisResult);
   return {
-    prompt: builder(complexityLevel, analysisResult),
+    prompt: correction
+      ? `${prompt} ${buildRegionCorrection(complexityLevel, correction)}`
+      : prompt,
     negativePrompt: NEGATIVE_PROMPT,
   };
 }
@@ -307,10 +376,15 @@ export function buildEditPrompt(
   variant: PromptVariant,
   complexityLevel: ComplexityLevel,
   analysisResult?: AnalysisResult,
+  correction?: RegionCorrection,
 ): string {
-  const builder = VARIANT_BUILDERS[variant];
-  const positivePrompt = builder(complexityLevel, analysisResult);
-  return `${positivePrompt} MUST NOT include: ${NEGATIVE_PROMPT}.`;
+  const { prompt, negativePrompt } = buildGenerationPrompt(
+    variant,
+    complexityLevel,
+    analysisResult,
+    correction,
+  );
+  return `${prompt} MUST NOT include: ${negativePrompt}.`;
 }
 
 /**